@@ -1,4 +1,6 @@
-import fetch from 'node-fetch';
+import fetch, { RequestInit, Response } from 'node-fetch';
+import { AsyncLocalStorage } from 'async_hooks';
+import { ZodTypeAny } from 'zod';
 import { 
   ConfigResponse, 
   ConfigResponseSchema,
@@ -8,17 +10,218 @@ import {
   TablesResponseSchema,
   Dataset, 
   DatasetSchema,
-  RateLimitInfo 
+  CodeListResponse,
+  CodeListResponseSchema,
+  SelectionResponse,
+  SelectionResponseSchema,
+  DefaultSelection,
+  SavedQuery,
+  SavedQuerySchema,
+  FormattedData,
+  Placement,
+  RateLimitInfo,
+  TableDataOptions,
+  TableDataResult,
+  VariableSelection,
+  VariablesSelection,
+  SelectionValidation
 } from './types.js';
+import { expandSelectionValues, resolveSelectionValue } from './selection-expressions.js';
+import { resolveTimeExpression } from './time-expressions.js';
+import { parseTimePeriod } from './time-periods.js';
+import { VariableResolution, resolveVariableName } from './variable-resolution.js';
+import { resolveValueLabel } from './value-resolution.js';
+import { DimensionKind, classifyDimension, classifyDimensions, findDimension } from './dimension-classification.js';
+import { countCells, splitSelection, mergeDatasets } from './chunking.js';
+import { categoryCodes, cellStatus, dimensionRole, measureUnits } from './json-stat.js';
+import { summarizeByMeasure } from './summary-stats.js';
+import { RateLimiter, RateLimiterState, parseRetryAfter } from './rate-limiter.js';
+import { MetadataCache, MetadataCacheOptions, MetadataCacheStats } from './metadata-cache.js';
+import { DataCache, DataCacheStats, dataCacheKey } from './data-cache.js';
+import {
+  BadSelectionError,
+  ScbApiError,
+  SchemaMismatchError,
+  UpstreamUnavailableError,
+  errorFromResponse
+} from './errors.js';
+import { SchemaMode, SchemaWarning, parseWithDrift, uniqueWarnings } from './schema-drift.js';
+
+// MIME types for SCB's output formats (PxAPI-2.yml#/components/schemas/OutputFormatType)
+const OUTPUT_FORMAT_MIME_TYPES: Record<string, string> = {
+  'json-stat2': 'application/json',
+  'json-px': 'application/json',
+  'csv': 'text/csv',
+  'html': 'text/html',
+  'px': 'text/plain',
+  'xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'parquet': 'application/vnd.apache.parquet'
+};
+
+// Formats that must be passed on as base64 blobs rather than text
+const BINARY_OUTPUT_FORMATS = ['xlsx', 'parquet'];
+
+// Fallbacks when the /config endpoint could not be read
+const DEFAULT_MAX_DATA_CELLS = 150000;
+const DEFAULT_DATA_FORMATS = ['json-stat2', 'csv', 'px', 'xlsx', 'html', 'json-px', 'parquet'];
+
+// How long a call may wait in the rate limit queue before failing (override with SCB_MAX_RATE_LIMIT_WAIT_MS)
+const DEFAULT_MAX_RATE_LIMIT_WAIT_MS = 30000;
+// How many times a 429 is retried after waiting out Retry-After
+const MAX_RATE_LIMIT_RETRIES = 2;
+
+// Per-attempt timeout for upstream calls (override with SCB_REQUEST_TIMEOUT_MS)
+const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+// Retries of 5xx and network errors on idempotent calls, with exponential backoff and jitter
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+
+// Metadata cache defaults (override with SCB_METADATA_CACHE_SIZE, SCB_METADATA_CACHE_TTL_MS, SCB_METADATA_CACHE_DIR)
+const DEFAULT_METADATA_CACHE_SIZE = 200;
+const DEFAULT_METADATA_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+// Memory budget for cached datasets (override with SCB_DATA_CACHE_MAX_BYTES)
+const DEFAULT_DATA_CACHE_MAX_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Backoff before retry number `retry` (1-based): exponential, capped, with equal jitter
+ */
+function retryDelay(retry: number): number {
+  const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (retry - 1));
+  return ceiling / 2 + Math.random() * ceiling / 2;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Request cancelled by the client'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Wait for a promise, but give up on it (without stopping it) when signal fires
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new Error('Request cancelled by the client'));
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new Error('Request cancelled by the client'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+// outputFormatParams (PxAPI-2.yml#/components/schemas/OutputFormatParamType), grouped by what they affect
+const OUTPUT_FORMAT_PARAM_GROUPS: Record<string, { params: string[]; formats: string[] }> = {
+  values: { params: ['UseCodes', 'UseTexts', 'UseCodesAndTexts'], formats: ['csv', 'html', 'xlsx'] },
+  title: { params: ['IncludeTitle'], formats: ['csv', 'html', 'xlsx'] },
+  separator: { params: ['SeparatorTab', 'SeparatorSpace', 'SeparatorSemicolon'], formats: ['csv'] }
+};
+
+/**
+ * Troubleshooting steps for a selection SCB rejected with 400, based on what the error mentions
+ */
+function selectionTroubleshooting(message: string): string[] {
+  const text = message.toLowerCase();
+  if (text.includes('variable')) {
+    return [
+      'Use scb_get_table_variables to see all available variable names',
+      'Try scb_test_selection to validate your selection first'
+    ];
+  }
+  if (text.includes('value')) {
+    return [
+      'Use scb_get_table_variables with variableName to see valid values',
+      'For time data, try formats like "2024" or "2024M12" for monthly',
+      'For regions, verify codes with scb_find_region_code'
+    ];
+  }
+  if (text.includes('time') || text.includes('date')) {
+    return [
+      'For annual data, use "2024"; for monthly data, use "2024M12"',
+      'Check available time values with scb_get_table_variables'
+    ];
+  }
+  return [
+    'Use scb_test_selection to validate your selection',
+    'Check variable names and values with scb_get_table_variables'
+  ];
+}
+
+// Per tool call state, threaded through async calls
+interface CallContext {
+  signal?: AbortSignal;
+  schemaWarnings: SchemaWarning[];
+}
 
 export class SCBApiClient {
   private baseUrl: string;
   private rateLimitInfo: RateLimitInfo | null = null;
   private requestCount = 0;
   private windowStartTime = new Date();
+  private apiConfig: ConfigResponse | null = null;
+  private rateLimiter: RateLimiter;
+  private requestTimeoutMs: number;
+  private callContext = new AsyncLocalStorage<CallContext>();
+  private schemaMode: SchemaMode;
+  private metadataCache: MetadataCache;
+  private metadataRequests = new Map<string, Promise<{ metadata: Dataset; schemaWarnings: SchemaWarning[] }>>();
+  private dataCache: DataCache;
 
-  constructor(baseUrl = 'https://statistikdatabasen.scb.se/api/v2') {
+  constructor(
+    baseUrl = 'https://statistikdatabasen.scb.se/api/v2',
+    options: {
+      maxRateLimitWaitMs?: number;
+      requestTimeoutMs?: number;
+      metadataCache?: Partial<MetadataCacheOptions>;
+      dataCacheMaxBytes?: number;
+      schemaMode?: SchemaMode;
+    } = {}
+  ) {
     this.baseUrl = baseUrl;
+    const maxWaitMs = options.maxRateLimitWaitMs
+      ?? (Number(process.env.SCB_MAX_RATE_LIMIT_WAIT_MS) || DEFAULT_MAX_RATE_LIMIT_WAIT_MS);
+    this.rateLimiter = new RateLimiter(30, 10, maxWaitMs);
+    this.requestTimeoutMs = options.requestTimeoutMs
+      ?? (Number(process.env.SCB_REQUEST_TIMEOUT_MS) || DEFAULT_REQUEST_TIMEOUT_MS);
+    this.metadataCache = new MetadataCache({
+      maxEntries: options.metadataCache?.maxEntries
+        ?? (Number(process.env.SCB_METADATA_CACHE_SIZE) || DEFAULT_METADATA_CACHE_SIZE),
+      ttlMs: options.metadataCache?.ttlMs
+        ?? (Number(process.env.SCB_METADATA_CACHE_TTL_MS) || DEFAULT_METADATA_CACHE_TTL_MS),
+      diskDir: options.metadataCache?.diskDir ?? process.env.SCB_METADATA_CACHE_DIR
+    });
+    this.dataCache = new DataCache(options.dataCacheMaxBytes
+      ?? (Number(process.env.SCB_DATA_CACHE_MAX_BYTES) || DEFAULT_DATA_CACHE_MAX_BYTES));
+    this.schemaMode = options.schemaMode ?? (process.env.SCB_SCHEMA_MODE === 'strict' ? 'strict' : 'lenient');
+  }
+
+  /**
+   * Run one tool call. Every upstream call it makes is aborted when signal fires
+   * (used for MCP notifications/cancelled), and schema drift seen along the way is collected.
+   */
+  async runToolCall<T>(
+    signal: AbortSignal | undefined,
+    fn: () => Promise<T>
+  ): Promise<{ result: T; schemaWarnings: SchemaWarning[] }> {
+    const context: CallContext = { signal, schemaWarnings: [] };
+    const result = await this.callContext.run(context, fn);
+    return { result, schemaWarnings: uniqueWarnings(context.schemaWarnings) };
   }
 
   private async initializeRateLimit(): Promise<void> {
@@ -27,7 +230,7 @@ export class SCBApiClient {
     try {
       // Make direct config request without rate limiting to avoid circular dependency
       const url = `${this.baseUrl}/config`;
-      const response = await fetch(url, {
+      const response = await this.fetchWithTimeout(url, {
         headers: {
           'Accept': 'application/json',
           'User-Agent': 'SCB-MCP-Client/1.0'
@@ -43,18 +246,17 @@ export class SCBApiClient {
           maxCalls: 30,
           timeWindow: 10
         };
-        return;
-      }
+      } else {
+        const config = this.parseResponse<ConfigResponse>(ConfigResponseSchema, await response.json(), url);
+        this.apiConfig = config;
 
-      const data = await response.json();
-      const config = ConfigResponseSchema.parse(data);
-      
-      this.rateLimitInfo = {
-        remaining: config.maxCallsPerTimeWindow,
-        resetTime: new Date(Date.now() + config.timeWindow * 1000),
-        maxCalls: config.maxCallsPerTimeWindow,
-        timeWindow: config.timeWindow
-      };
+        this.rateLimitInfo = {
+          remaining: config.maxCallsPerTimeWindow,
+          resetTime: new Date(Date.now() + config.timeWindow * 1000),
+          maxCalls: config.maxCallsPerTimeWindow,
+          timeWindow: config.timeWindow
+        };
+      }
     } catch (error) {
       // Fallback to reasonable defaults if anything fails
       console.warn('Failed to initialize rate limits, using defaults:', error);
@@ -65,13 +267,20 @@ export class SCBApiClient {
         timeWindow: 10
       };
     }
+
+    this.rateLimiter.configure(this.rateLimitInfo.maxCalls, this.rateLimitInfo.timeWindow);
   }
 
-  private async checkRateLimit(): Promise<void> {
+  /**
+   * Wait for a slot in the rate limit queue. Only fails if the wait would exceed the configured maximum.
+   */
+  private async acquireRateLimit(signal?: AbortSignal): Promise<void> {
     if (!this.rateLimitInfo) {
       await this.initializeRateLimit();
     }
 
+    await this.rateLimiter.acquire(signal);
+
     const now = new Date();
     
     // Reset window if time has passed
@@ -81,58 +290,199 @@ export class SCBApiClient {
       this.rateLimitInfo!.resetTime = new Date(now.getTime() + this.rateLimitInfo!.timeWindow * 1000);
       this.rateLimitInfo!.remaining = this.rateLimitInfo!.maxCalls;
     }
-
-    if (this.requestCount >= this.rateLimitInfo!.maxCalls) {
-      const waitTime = this.rateLimitInfo!.resetTime.getTime() - now.getTime();
-      throw new Error(`Rate limit exceeded. Try again in ${Math.ceil(waitTime / 1000)} seconds. Current usage: ${this.requestCount}/${this.rateLimitInfo!.maxCalls}`);
-    }
   }
 
-  private async makeRequest<T>(endpoint: string, schema: any): Promise<T> {
-    await this.checkRateLimit();
-    
-    const url = `${this.baseUrl}${endpoint}`;
-    const response = await fetch(url, {
-      headers: {
-        'Accept': 'application/json',
-        'User-Agent': 'SCB-MCP-Client/1.0'
+  /**
+   * Fetch through the rate limit queue.
+   * A 429 pauses the queue for Retry-After and the call is retried. 5xx and network errors
+   * (including timeouts) are retried with backoff when the call is idempotent.
+   */
+  private async fetchUpstream(url: string, init: RequestInit, idempotent: boolean): Promise<Response> {
+    const signal = this.callContext.getStore()?.signal;
+    let rateLimitRetries = 0;
+    let retries = 0;
+
+    for (;;) {
+      await this.acquireRateLimit(signal);
+
+      let response: Response;
+      try {
+        response = await this.fetchWithTimeout(url, init, signal);
+      } catch (error) {
+        if (signal?.aborted || !idempotent || retries >= MAX_RETRIES) throw error;
+        await sleep(retryDelay(++retries), signal);
+        continue;
+      }
+
+      this.requestCount++;
+      if (this.rateLimitInfo) {
+        this.rateLimitInfo.remaining = Math.max(0, this.rateLimitInfo.maxCalls - this.requestCount);
+      }
+
+      if (response.status === 429 && rateLimitRetries < MAX_RATE_LIMIT_RETRIES) {
+        rateLimitRetries++;
+        const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'))
+          ?? (this.rateLimitInfo?.timeWindow || 10) * 1000;
+        this.rateLimiter.pauseFor(retryAfterMs);
+        continue;
       }
-    });
 
-    this.requestCount++;
-    if (this.rateLimitInfo) {
-      this.rateLimitInfo.remaining = Math.max(0, this.rateLimitInfo.maxCalls - this.requestCount);
+      if (response.status >= 500 && idempotent && retries < MAX_RETRIES) {
+        // Release the connection before trying again
+        await response.arrayBuffer().catch(() => undefined);
+        await sleep(retryDelay(++retries), signal);
+        continue;
+      }
+
+      return response;
     }
+  }
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        throw new Error(`Rate limit exceeded (429). Wait and try again.`);
+  /**
+   * A single fetch attempt, aborted after requestTimeoutMs or when the caller's signal fires.
+   * The body is read within the same time limit, so a server that stalls mid-body times out too;
+   * the returned response holds the body in memory.
+   */
+  private async fetchWithTimeout(url: string, init: RequestInit, signal?: AbortSignal): Promise<Response> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = setTimeout(() => controller.abort(), this.requestTimeoutMs);
+
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal });
+      const body = Buffer.from(await response.arrayBuffer());
+      return new Response(body.length > 0 ? body : null, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers
+      });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new Error('Request cancelled by the client');
       }
-      
-      // Try to get error details from response body
-      let errorDetails = '';
-      try {
-        const errorText = await response.text();
-        if (errorText.includes('<!DOCTYPE html') || errorText.includes('<html')) {
-          errorDetails = ' (Server returned HTML error page)';
-        } else {
-          errorDetails = `: ${errorText.substring(0, 100)}`;
-        }
-      } catch (e) {
-        // Ignore error reading response body
+      if (controller.signal.aborted) {
+        throw new UpstreamUnavailableError(`Request timed out after ${Math.round(this.requestTimeoutMs / 1000)} seconds: ${url}`, { url });
       }
-      
-      throw new Error(`API request failed: ${response.status} ${response.statusText}${errorDetails}`);
+      throw new UpstreamUnavailableError(`Could not reach the SCB API: ${error instanceof Error ? error.message : String(error)}`, { url });
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private async sendRequest(endpoint: string, body?: unknown, accept = 'application/json'): Promise<Response> {
+    const url = `${this.baseUrl}${endpoint}`;
+    const headers: Record<string, string> = {
+      'Accept': accept,
+      'User-Agent': 'SCB-MCP-Client/1.0'
+    };
+    // GETs are retried; POSTs here create saved queries and must not be sent twice
+    const response = body === undefined
+      ? await this.fetchUpstream(url, { headers }, true)
+      : await this.fetchUpstream(url, {
+          method: 'POST',
+          headers: { ...headers, 'Content-Type': 'application/json' },
+          body: JSON.stringify(body)
+        }, false);
+
+    if (!response.ok) {
+      throw await this.responseError(response, url);
     }
 
+    return response;
+  }
+
+  /**
+   * The typed error for a non-OK response, with its problem details
+   */
+  private responseError(response: Response, url: string): Promise<ScbApiError> {
+    return errorFromResponse(response, url, {
+      maxCells: this.apiConfig?.maxDataCells,
+      retryAfterMs: parseRetryAfter(response.headers.get('retry-after')) ?? undefined
+    });
+  }
+
+  private async makeRequest<T>(endpoint: string, schema: ZodTypeAny, body?: unknown): Promise<T> {
+    const response = await this.sendRequest(endpoint, body);
+    const url = `${this.baseUrl}${endpoint}`;
+
     const contentType = response.headers.get('content-type');
     if (!contentType || !contentType.includes('application/json')) {
       const responseText = await response.text();
-      throw new Error(`Expected JSON response but got ${contentType}. Response: ${responseText.substring(0, 100)}...`);
+      throw new SchemaMismatchError(
+        `Expected JSON response but got ${contentType}. Response: ${responseText.substring(0, 100)}...`,
+        { status: response.status, url }
+      );
     }
 
-    const data = await response.json();
-    return schema.parse(data);
+    return this.parseResponse<T>(schema, await response.json(), url);
+  }
+
+  /**
+   * Check a response against its schema; drift that can be worked around is added to the call's warnings
+   */
+  private parseResponse<T>(schema: ZodTypeAny, data: unknown, url: string): T {
+    const { data: parsed, warnings } = parseWithDrift<T>(schema, data, url, this.schemaMode);
+    this.callContext.getStore()?.schemaWarnings.push(...warnings);
+    return parsed;
+  }
+
+  /**
+   * Fetch a payload in one of SCB's native output formats (csv, xlsx, px, ...) without parsing it
+   */
+  private async makeRawRequest(endpoint: string, format: string, body?: unknown): Promise<FormattedData> {
+    const response = await this.sendRequest(endpoint, body, '*/*');
+    return this.readFormattedResponse(response, format);
+  }
+
+  private async readFormattedResponse(response: Response, format: string): Promise<FormattedData> {
+    const mimeType = OUTPUT_FORMAT_MIME_TYPES[format] || response.headers.get('content-type') || 'application/octet-stream';
+
+    if (BINARY_OUTPUT_FORMATS.includes(format)) {
+      const buffer = Buffer.from(await response.arrayBuffer());
+      return { format, mimeType, encoding: 'base64', body: buffer.toString('base64'), bytes: buffer.length };
+    }
+
+    const text = await response.text();
+    return { format, mimeType, encoding: 'text', body: text, bytes: Buffer.byteLength(text) };
+  }
+
+  /**
+   * Output formats the API offers, as advertised by /config
+   */
+  async getDataFormats(): Promise<string[]> {
+    if (!this.rateLimitInfo) {
+      await this.initializeRateLimit();
+    }
+    return this.apiConfig?.dataFormats || DEFAULT_DATA_FORMATS;
+  }
+
+  /**
+   * Check an output format and its outputFormatParams before sending them upstream
+   */
+  private async assertOutputFormat(format: string, outputFormatParams: string[] = []): Promise<void> {
+    const formats = await this.getDataFormats();
+    if (!formats.includes(format)) {
+      throw new Error(`Unsupported output format "${format}". Available formats: ${formats.join(', ')}`);
+    }
+
+    const knownParams = Object.values(OUTPUT_FORMAT_PARAM_GROUPS).flatMap(group => group.params);
+    for (const param of outputFormatParams) {
+      if (!knownParams.includes(param)) {
+        throw new Error(`Unknown outputFormatParams value "${param}". Valid values: ${knownParams.join(', ')}`);
+      }
+    }
+
+    for (const [groupName, group] of Object.entries(OUTPUT_FORMAT_PARAM_GROUPS)) {
+      const used = outputFormatParams.filter(p => group.params.includes(p));
+      if (used.length > 1) {
+        throw new Error(`outputFormatParams ${used.join(' and ')} cannot be combined (only one ${groupName} option allowed)`);
+      }
+      if (used.length > 0 && !group.formats.includes(format)) {
+        throw new Error(`outputFormatParams ${used[0]} only applies to ${group.formats.join(', ')} output, not "${format}"`);
+      }
+    }
   }
 
   async getConfig(): Promise<ConfigResponse> {
@@ -170,147 +520,124 @@ export class SCBApiClient {
     if (params.lang) searchParams.set('lang', params.lang);
 
     const endpoint = `/tables?${searchParams.toString()}`;
-    return this.makeRequest(endpoint, TablesResponseSchema);
+    const result = await this.makeRequest<TablesResponse>(endpoint, TablesResponseSchema);
+
+    // Listings carry each table's last update, which tells us when cached metadata and data are stale
+    for (const table of result.tables) {
+      if (table.updated) {
+        this.metadataCache.noteTableUpdated(table.id, table.updated);
+        this.dataCache.noteTableUpdated(table.id, table.updated);
+      }
+    }
+
+    return result;
   }
 
+  /**
+   * Get table metadata, served from the metadata cache when possible.
+   * Concurrent calls for the same table share one upstream request. It runs outside any
+   * caller's context, so one caller cancelling does not fail the others, and every caller
+   * gets the schema warnings.
+   */
   async getTableMetadata(tableId: string, lang = 'en'): Promise<Dataset> {
-    const endpoint = `/tables/${tableId}/metadata?lang=${lang}`;
-    return this.makeRequest(endpoint, DatasetSchema);
+    const cached = await this.metadataCache.get(tableId, lang);
+    if (cached) return cached;
+
+    const key = `${tableId}:${lang}`;
+    let request = this.metadataRequests.get(key);
+    if (!request) {
+      const shared: CallContext = { schemaWarnings: [] };
+      request = this.callContext.run(shared, async () => {
+        const endpoint = `/tables/${tableId}/metadata?lang=${lang}`;
+        const metadata = await this.makeRequest<Dataset>(endpoint, DatasetSchema);
+        await this.metadataCache.set(tableId, lang, metadata);
+        return { metadata, schemaWarnings: shared.schemaWarnings };
+      });
+      this.metadataRequests.set(key, request);
+      // Also handles the rejection when every caller has given up
+      const forget = () => { this.metadataRequests.delete(key); };
+      request.then(forget, forget);
+    }
+
+    const context = this.callContext.getStore();
+    const { metadata, schemaWarnings } = await abortable(request, context?.signal);
+    context?.schemaWarnings.push(...schemaWarnings);
+    return metadata;
   }
 
-  private translateCommonVariables(selection: Record<string, string[]>, lang: string): Record<string, string[]> {
-    // Bidirectional variable name mappings (handles both directions and case variations)
-    const variableMapping: Record<string, string> = {
-      // Swedish -> English
-      'år': 'Tid',
-      'månad': 'Tid', 
-      'kön': 'Kon',
-      'ålder': 'Alder',
-      'län': 'Region',
-      'kommun': 'Region',
-      'utbildning': 'UtbildningsNiva',
-      'sysselsättning': 'Sysselsattning',
-      'inkomst': 'Inkomst',
-      'familjetyp': 'Familjetyp',
-      'civilstånd': 'Civilstand',
-      
-      // English -> Swedish (common API variable names)
-      'year': 'Tid',
-      'time': 'Tid',
-      'month': 'Tid',
-      'sex': 'Kon',
-      'gender': 'Kon',
-      'age': 'Alder',
-      'county': 'Region',
-      'municipality': 'Region',
-      'education': 'UtbildningsNiva',
-      'employment': 'Sysselsattning',
-      'income': 'Inkomst',
-      'family_type': 'Familjetyp',
-      'marital_status': 'Civilstand',
-      
-      // Case variations (lowercase -> proper case)
-      'region': 'Region',
-      'alder': 'Alder',
-      'kon': 'Kon',
-      'tid': 'Tid',
-      'utbildningsniva': 'UtbildningsNiva',
-      'sysselsattning': 'Sysselsattning',
-      'civilstand': 'Civilstand',
-      'contentscode': 'ContentsCode',
-      'observations': 'ContentsCode',  // Both can map to same API variable name
-      'contents': 'ContentsCode'
-    };
+  /**
+   * Get the selection SCB uses when no selection is given, including suggested heading/stub placement
+   */
+  async getDefaultSelection(tableId: string, lang = 'en'): Promise<DefaultSelection> {
+    const endpoint = `/tables/${tableId}/defaultselection?lang=${lang}`;
+    const response = await this.makeRequest<SelectionResponse>(endpoint, SelectionResponseSchema);
 
-    const translatedSelection: Record<string, string[]> = {};
-    
-    for (const [key, values] of Object.entries(selection)) {
-      // Try exact match first, then lowercase match
-      const mappedKey = variableMapping[key] || variableMapping[key.toLowerCase()] || key;
-      translatedSelection[mappedKey] = values;
+    const selection: Record<string, string[]> = {};
+    const codelists: Record<string, string> = {};
+    for (const variable of response.selection) {
+      selection[variable.variableCode] = variable.valueCodes || [];
+      if (variable.codeList) {
+        codelists[variable.variableCode] = variable.codeList;
+      }
     }
-    
-    return translatedSelection;
-  }
 
-  private translateCommonValues(values: string[], variableName: string): string[] {
-    const valueMapping: Record<string, Record<string, string>> = {
-      // Age/Alder common values
-      'Alder': {
-        'total': 'tot',
-        'all': 'tot',
-        'totalt': 'tot',
-        'totals': 'TotSA', // Sometimes it's TotSA in certain tables
-      },
-      // Time/Tid common values
-      'Tid': {
-        'latest': '2024', // Fallback to recent year
-        'recent': '2024',
-        'current': '2024',
-      },
-      // Sex/Gender common values  
-      'Kon': {
-        'total': 'tot',
-        'all': 'tot',
-        'male': '1',
-        'female': '2',
-        'men': '1',
-        'women': '2',
-        'man': '1',
-        'woman': '2',
-      },
-      // General mappings for any variable
-      '*': {
-        'total': 'tot',
-        'all': '*',
-        'totalt': 'tot',
-        'alla': '*',
+    return {
+      selection,
+      codelists,
+      placement: {
+        heading: response.placement?.heading || [],
+        stub: response.placement?.stub || []
       }
     };
+  }
 
-    return values.map(value => {
-      // Check specific variable mapping first
-      const specificMapping = valueMapping[variableName];
-      if (specificMapping && specificMapping[value.toLowerCase()]) {
-        return specificMapping[value.toLowerCase()];
-      }
-      
-      // Check general mapping
-      const generalMapping = valueMapping['*'];
-      if (generalMapping && generalMapping[value.toLowerCase()]) {
-        return generalMapping[value.toLowerCase()];
-      }
-      
-      // Handle time format detection
-      if (variableName === 'Tid' && value.match(/^\d{4}$/)) {
-        // Year format is correct
-        return value;
-      } else if (variableName === 'Tid' && value.match(/^\d{4}-\d{2}$/)) {
-        // Convert YYYY-MM to YYYYMM format
-        return value.replace('-', 'M');
-      }
-      
-      return value;
-    });
+  /**
+   * Get a codelist, served from the metadata cache when possible
+   */
+  async getCodelist(codelistId: string, lang = 'en'): Promise<CodeListResponse> {
+    const cached = await this.metadataCache.getCodelist(codelistId, lang);
+    if (cached) return cached;
+
+    const endpoint = `/codelists/${encodeURIComponent(codelistId)}?lang=${lang}`;
+    const codelist = await this.makeRequest<CodeListResponse>(endpoint, CodeListResponseSchema);
+    await this.metadataCache.setCodelist(codelistId, lang, codelist);
+    return codelist;
+  }
+
+  /**
+   * List the codelists (alternative groupings) available for each variable in a table
+   */
+  async getTableCodelists(tableId: string, lang = 'en'): Promise<Array<{
+    variableCode: string;
+    variableLabel: string;
+    codelists: Array<{ id: string; label: string; type: 'Aggregation' | 'Valueset' }>;
+  }>> {
+    const metadata = await this.getTableMetadata(tableId, lang);
+
+    return Object.entries(metadata.dimension).map(([varCode, varDef]) => ({
+      variableCode: varCode,
+      variableLabel: varDef.label,
+      codelists: (varDef.extension?.codeLists || []).map(cl => ({
+        id: cl.id,
+        label: cl.label,
+        type: cl.type
+      }))
+    }));
+  }
+
+  private translateCommonValues(values: string[]): string[] {
+    // "all" is shorthand for the wildcard. Labels (kvinnor, Göteborg) and time expressions
+    // (latest, last 5 years) are resolved against metadata in validateSelection.
+    return values.map(value => ['all', 'alla'].includes(value.toLowerCase()) ? '*' : value);
   }
 
   async validateSelection(
     tableId: string,
     selection: Record<string, string[]>,
-    lang = 'en'
-  ): Promise<{ isValid: boolean; errors: string[]; suggestions: string[]; translatedSelection?: Record<string, string[]> }> {
+    lang = 'en',
+    codelists: Record<string, string> = {}
+  ): Promise<SelectionValidation> {
     try {
-      // Try to translate common Swedish terms first
-      const originalSelection = { ...selection };
-      let translatedSelection = this.translateCommonVariables(selection, lang);
-      
-      // Also translate common values
-      const finalSelection: Record<string, string[]> = {};
-      for (const [varName, values] of Object.entries(translatedSelection)) {
-        finalSelection[varName] = this.translateCommonValues(values, varName);
-      }
-      translatedSelection = finalSelection;
-      
       // Get table metadata to validate against
       const metadata = await this.getTableMetadata(tableId, lang);
       
@@ -326,25 +653,115 @@ export class SCBApiClient {
       }
       
       const availableVariables = Object.keys(metadata.dimension);
+
+      // Resolve selection and codelist keys ("län", "year", "sni") to the table's dimension codes
+      const keyResolutions = await this.resolveVariableKeys(tableId, lang, metadata, [...Object.keys(selection), ...Object.keys(codelists)]);
+      const resolvedVariables: NonNullable<SelectionValidation['resolvedVariables']> = [];
+      const resolveKey = (key: string): string | null => {
+        const resolution = keyResolutions[key];
+        if (resolution.status === 'resolved') {
+          if (resolution.code !== key && !resolvedVariables.some(r => r.key === key)) {
+            resolvedVariables.push({ key, code: resolution.code, label: resolution.label, score: Math.round(resolution.score * 100) / 100 });
+          }
+          return resolution.code;
+        }
+        if (resolution.status === 'ambiguous') {
+          errors.push(`Variable "${key}" is ambiguous: it could be ${resolution.candidates.map(c => `"${c.code}" (${c.label})`).join(' or ')}`);
+          suggestions.push(`Use the exact variable code instead of "${key}": ${resolution.candidates.map(c => c.code).join(', ')}`);
+          return null;
+        }
+        // Unmatched keys are reported as unknown variables below
+        return key;
+      };
+
+      const translatedSelection: Record<string, string[]> = {};
+      const keyByCode: Record<string, string> = {};
+      for (const [key, values] of Object.entries(selection)) {
+        const varCode = resolveKey(key);
+        if (varCode === null) continue;
+        if (keyByCode[varCode] !== undefined) {
+          errors.push(`"${keyByCode[varCode]}" and "${key}" both refer to variable "${varCode}"`);
+          continue;
+        }
+        keyByCode[varCode] = key;
+        // "all" becomes the wildcard; labels are resolved per variable below
+        translatedSelection[varCode] = this.translateCommonValues(values);
+      }
+
+      const translatedCodelists: Record<string, string> = {};
+      for (const [key, codelistId] of Object.entries(codelists)) {
+        const varCode = resolveKey(key);
+        if (varCode !== null) translatedCodelists[varCode] = codelistId;
+      }
       
-      // Check for missing mandatory dimensions
+      // Variables left out are fine if they can be eliminated; only the rest are mandatory
       const selectedVariables = Object.keys(translatedSelection);
-      const missingVariables = availableVariables.filter(varName => !selectedVariables.includes(varName));
+      const omittedVariables = availableVariables.filter(varName => !selectedVariables.includes(varName));
+      const missingVariables = omittedVariables.filter(varName => !metadata.dimension[varName].extension?.elimination);
+
+      // SCB picks the elimination value if there is one, and otherwise sums over all values
+      const eliminatedVariables = omittedVariables
+        .filter(varName => metadata.dimension[varName].extension?.elimination)
+        .map(varName => {
+          const dimension = metadata.dimension[varName];
+          const valueCode = dimension.extension?.eliminationValueCode;
+          return {
+            variable: varName,
+            label: dimension.label,
+            method: valueCode ? 'elimination_value' as const : 'sum' as const,
+            eliminationValueCode: valueCode || null,
+            eliminationValueLabel: valueCode ? dimension.category.label?.[valueCode] || valueCode : null
+          };
+        });
       
       if (missingVariables.length > 0) {
         errors.push(`Missing mandatory variables: ${missingVariables.join(', ')}`);
-        suggestions.push(`SCB tables require all dimensions to be specified. Add these variables to your selection: ${missingVariables.join(', ')}`);
+        suggestions.push(`These variables cannot be eliminated and must be in the selection: ${missingVariables.join(', ')}`);
         suggestions.push(`Use "*" as value to select all values for a dimension, e.g. {"${missingVariables[0]}": ["*"]}`);
       }
 
+      // Check that codelists refer to existing variables and are offered for them
+      const codelistValues: Record<string, string[]> = {};
+      const codelistLabels: Record<string, Record<string, string>> = {};
+      for (const [varCode, codelistId] of Object.entries(translatedCodelists)) {
+        if (!availableVariables.includes(varCode)) {
+          errors.push(`Codelist "${codelistId}" given for unknown variable "${varCode}"`);
+          suggestions.push(`Available variables: ${availableVariables.join(', ')}`);
+          continue;
+        }
+
+        const offered = metadata.dimension[varCode].extension?.codeLists;
+        if (offered && !offered.some(cl => cl.id === codelistId)) {
+          errors.push(`Codelist "${codelistId}" is not available for variable "${varCode}"`);
+          suggestions.push(offered.length > 0
+            ? `Codelists for "${varCode}": ${offered.map(cl => cl.id).join(', ')}`
+            : `Variable "${varCode}" has no codelists`);
+          continue;
+        }
+
+        try {
+          const codelist = await this.getCodelist(codelistId, lang);
+          codelistValues[varCode] = codelist.values.map(v => v.code);
+          codelistLabels[varCode] = Object.fromEntries(codelist.values.map(v => [v.code, v.label]));
+        } catch (error) {
+          errors.push(`Codelist "${codelistId}" could not be loaded: ${error instanceof Error ? error.message : String(error)}`);
+          suggestions.push(`Use scb_get_table_codelists with tableId="${tableId}" to see valid codelist ids`);
+        }
+      }
+
       // Check each variable in translated selection
-      for (const [varCode, values] of Object.entries(translatedSelection)) {
+      const expandedSelection: Record<string, string[]> = {};
+      const resolvedTimeExpressions: SelectionValidation['resolvedTimeExpressions'] = [];
+      const resolvedValueLabels: NonNullable<SelectionValidation['resolvedValueLabels']> = [];
+      for (const [varCode, requestedValues] of Object.entries(translatedSelection)) {
+        let values = requestedValues;
         // Check if variable exists
         if (!availableVariables.includes(varCode)) {
           errors.push(`Variable "${varCode}" not found in table`);
           
           // Find similar variable names
-          const similar = availableVariables.filter(v => 
+          const nearMisses = keyResolutions[varCode]?.status === 'unmatched' ? keyResolutions[varCode].candidates : [];
+          const similar = nearMisses.length > 0 ? nearMisses.map(c => c.code) : availableVariables.filter(v => 
             v.toLowerCase().includes(varCode.toLowerCase()) ||
             metadata.dimension![v].label.toLowerCase().includes(varCode.toLowerCase())
           );
@@ -357,19 +774,68 @@ export class SCBApiClient {
           continue;
         }
         
+        // With a codelist, value codes refer to the codelist instead of the raw dimension
+        if (translatedCodelists[varCode] && !codelistValues[varCode]) continue;
+        // Errors for this variable's values start here
+        const firstValueError = errors.length;
         const varDef = metadata.dimension[varCode];
-        const availableValues = Object.keys(varDef.category.index);
-        
-        // Check each value (skip special expressions like TOP(5), *, etc.)
+        const availableValues = codelistValues[varCode] || Object.keys(varDef.category.index);
+
+        // Relative time (latest, last 5 years, 2020-2024, ...) becomes the table's own codes
+        const kind = classifyDimension(metadata, varCode);
+        if (kind === 'time') {
+          const resolvedValues: string[] = [];
+          for (const value of values) {
+            const resolution = resolveTimeExpression(value, availableValues);
+            if (!resolution) {
+              resolvedValues.push(value);
+            } else if ('error' in resolution) {
+              errors.push(resolution.error);
+            } else {
+              resolvedTimeExpressions.push({ variable: varCode, expression: value, codes: resolution.codes });
+              resolvedValues.push(...resolution.codes);
+            }
+          }
+          values = resolvedValues;
+          translatedSelection[varCode] = resolvedValues;
+        }
+
+        // Values given by label ("kvinnor", "Göteborg") become codes
+        const labels = codelistLabels[varCode] || varDef.category.label;
+        const labelledValues: string[] = [];
         for (const value of values) {
-          if (value === '*' || 
-              value.startsWith('TOP(') || 
-              value.startsWith('BOTTOM(') ||
-              value.startsWith('RANGE(')) {
-            continue; // These are valid expressions
+          if (!resolveSelectionValue(value, availableValues).error) {
+            labelledValues.push(value);
+            continue;
           }
-          
-          if (!availableValues.includes(value)) {
+
+          const match = resolveValueLabel(value, labels, { regions: kind === 'geo' });
+          if (match.status === 'resolved') {
+            resolvedValueLabels.push({ variable: varCode, value, code: match.code, label: match.label });
+            labelledValues.push(match.code);
+          } else if (match.status === 'ambiguous') {
+            errors.push(`Value "${value}" for variable "${varCode}" is ambiguous: it matches ${match.candidates.map(c => `"${c.label}" (${c.code})`).join(', ')}`);
+            suggestions.push(`For "${varCode}", use one of the codes: ${match.candidates.map(c => c.code).join(', ')}`);
+          } else {
+            // Reported as not found below
+            labelledValues.push(value);
+          }
+        }
+        values = labelledValues;
+        translatedSelection[varCode] = labelledValues;
+
+        expandedSelection[varCode] = expandSelectionValues(values, availableValues);
+        
+        // Check each value and expression (TOP(5), 01*, RANGE(a,b), ...) against the codes
+        for (const value of values) {
+          const resolution = resolveSelectionValue(value, availableValues);
+          if (!resolution.error) continue;
+
+          if (resolution.expression?.type !== 'code') {
+            errors.push(`Invalid selection for variable "${varCode}": ${resolution.error}`);
+            const grammarHint = 'Expressions: *, 01*, ??80, TOP(n[,offset]), BOTTOM(n[,offset]), RANGE(a,b), FROM(a), TO(a); wrap codes that look like expressions in [brackets]';
+            if (!suggestions.includes(grammarHint)) suggestions.push(grammarHint);
+          } else {
             errors.push(`Value "${value}" not found for variable "${varCode}"`);
             
             // Find similar values
@@ -379,18 +845,31 @@ export class SCBApiClient {
             
             if (similarValues.length > 0) {
               suggestions.push(`For "${varCode}", did you mean: ${similarValues.join(', ')}?`);
+            } else if (translatedCodelists[varCode]) {
+              suggestions.push(`Use scb_get_codelist with codelistId="${translatedCodelists[varCode]}" to see all values`);
             } else {
               suggestions.push(`Use scb_get_table_variables with tableId="${tableId}" and variableName="${varCode}" to see all values`);
             }
           }
         }
+
+        if (values.length > 0 && expandedSelection[varCode].length === 0 && errors.length === firstValueError) {
+          errors.push(`Selection for variable "${varCode}" selects no values: ${values.join(', ')}`);
+        }
       }
       
       return {
         isValid: errors.length === 0,
         errors,
         suggestions,
-        translatedSelection
+        translatedSelection,
+        translatedCodelists,
+        resolvedVariables,
+        resolvedValueLabels,
+        eliminatedVariables,
+        expandedSelection,
+        cellCount: countCells(expandedSelection),
+        resolvedTimeExpressions
       };
       
     } catch (error) {
@@ -405,113 +884,322 @@ export class SCBApiClient {
   async getTableData(
     tableId: string, 
     selection?: Record<string, string[]>,
-    lang = 'en'
+    lang = 'en',
+    options: TableDataOptions = {}
   ): Promise<Dataset> {
-    if (!selection) {
+    const result = await this.getTableDataWithCacheInfo(tableId, selection, lang, options);
+    return result.dataset;
+  }
+
+  /**
+   * Get table data as JSON-stat2, served from the data cache when the same selection was fetched before
+   */
+  async getTableDataWithCacheInfo(
+    tableId: string,
+    selection?: Record<string, string[]>,
+    lang = 'en',
+    options: TableDataOptions = {}
+  ): Promise<TableDataResult> {
+    const prepared = selection ? await this.prepareDataRequest(tableId, selection, lang, options) : undefined;
+    const key = dataCacheKey(tableId, lang, prepared?.expandedSelection ?? selection, prepared?.codelists ?? options.codelists);
+
+    // The metadata's `updated` tells if cached data is stale, also for the default selection. Validation
+    // usually loaded it already, and the metadata cache expires, so a newer release is noticed.
+    const updated = (await this.getTableMetadata(tableId, lang)).updated;
+
+    const cached = this.dataCache.get(key, updated);
+    const resolvedValueLabels = prepared?.resolvedValueLabels || [];
+
+    if (cached) {
+      return {
+        dataset: cached.dataset,
+        resolvedValueLabels,
+        cache: {
+          status: 'hit',
+          fetchedAt: cached.fetchedAt,
+          ageSeconds: Math.round((Date.now() - cached.fetchedAt.getTime()) / 1000)
+        }
+      };
+    }
+
+    let dataset: Dataset;
+    if (!prepared) {
       // Get default selection - request JSON-stat2 format
-      const endpoint = `/tables/${tableId}/data?lang=${lang}&outputFormat=json-stat2`;
-      return this.makeRequest(endpoint, DatasetSchema);
+      const endpoint = `/tables/${tableId}/data?lang=${lang}&outputFormat=json-stat2${this.toCodelistParams(options.codelists)}`;
+      dataset = await this.makeRequest<Dataset>(endpoint, DatasetSchema);
+    } else {
+      dataset = await this.fetchSelectedData(tableId, lang, prepared);
     }
 
-    // Validate selection before making API call
-    const validation = await this.validateSelection(tableId, selection, lang);
-    if (!validation.isValid) {
-      const errorMessage = `Selection validation failed:\n${validation.errors.join('\n')}` +
-        (validation.suggestions.length > 0 ? `\n\nSuggestions:\n${validation.suggestions.join('\n')}` : '');
-      throw new Error(errorMessage);
+    this.dataCache.set(key, tableId, dataset, updated, options.keepForPaging);
+    return { dataset, resolvedValueLabels, cache: { status: 'miss', fetchedAt: new Date(), ageSeconds: 0 } };
+  }
+
+  /**
+   * POST a validated selection, split into chunks when it exceeds maxDataCells
+   */
+  private async fetchSelectedData(
+    tableId: string,
+    lang: string,
+    prepared: { body: VariablesSelection; codelists: Record<string, string>; expandedSelection?: Record<string, string[]> }
+  ): Promise<Dataset> {
+    // Use POST for complex selections - request JSON-stat2 format
+    const { body, expandedSelection } = prepared;
+    const endpoint = `/tables/${tableId}/data?lang=${lang}&outputFormat=json-stat2`;
+    const url = `${this.baseUrl}${endpoint}`;
+
+    // Split selections above maxDataCells instead of letting SCB reject them with 403
+    const maxCells = await this.getMaxDataCells();
+    if (expandedSelection && countCells(expandedSelection) > maxCells) {
+      const chunks = splitSelection(expandedSelection, maxCells);
+      const parts: Dataset[] = [];
+      for (const chunk of chunks) {
+        const chunkBody: VariablesSelection = { ...body, selection: this.toSelectionArray(chunk, prepared.codelists) };
+        const response = await this.postTableData(endpoint, chunkBody, 'application/json');
+        parts.push(this.parseResponse<Dataset>(DatasetSchema, await response.json(), url));
+      }
+      return mergeDatasets(parts);
     }
 
-    // Use the translated selection for the API call
+    const response = await this.postTableData(endpoint, body, 'application/json');
+
+    return this.parseResponse<Dataset>(DatasetSchema, await response.json(), url);
+  }
+
+  async getMaxDataCells(): Promise<number> {
+    if (!this.rateLimitInfo) {
+      await this.initializeRateLimit();
+    }
+    return this.apiConfig?.maxDataCells || DEFAULT_MAX_DATA_CELLS;
+  }
+
+  /**
+   * Get table data in one of SCB's native output formats (csv, xlsx, px, parquet, html, json-px)
+   */
+  async getTableDataFormatted(
+    tableId: string,
+    selection: Record<string, string[]> | undefined,
+    lang = 'en',
+    options: TableDataOptions & { format: string; outputFormatParams?: string[] }
+  ): Promise<FormattedData> {
+    const { format, outputFormatParams = [] } = options;
+    await this.assertOutputFormat(format, outputFormatParams);
+
+    const formatParams = this.toFormatParams(format, outputFormatParams);
+
+    if (!selection) {
+      const endpoint = `/tables/${tableId}/data?lang=${lang}&${formatParams}${this.toCodelistParams(options.codelists)}${this.toPlacementParams(options.placement)}`;
+      return this.makeRawRequest(endpoint, format);
+    }
+
+    const { body } = await this.prepareDataRequest(tableId, selection, lang, options);
+    const response = await this.postTableData(`/tables/${tableId}/data?lang=${lang}&${formatParams}`, body, '*/*');
+    return this.readFormattedResponse(response, format);
+  }
+
+  private toFormatParams(format: string, outputFormatParams: string[] = []): string {
+    return `outputFormat=${encodeURIComponent(format)}` +
+      (outputFormatParams.length > 0 ? `&outputFormatParams=${outputFormatParams.join(',')}` : '');
+  }
+
+  private toPlacementParams(placement?: Placement): string {
+    if (!placement) return '';
+    return (placement.heading?.length ? `&heading=${placement.heading.map(encodeURIComponent).join(',')}` : '') +
+      (placement.stub?.length ? `&stub=${placement.stub.map(encodeURIComponent).join(',')}` : '');
+  }
+
+  private toCodelistParams(codelists: Record<string, string> = {}): string {
+    return Object.entries(codelists)
+      .map(([varCode, codelistId]) => `&codelist[${encodeURIComponent(varCode)}]=${encodeURIComponent(codelistId)}`)
+      .join('');
+  }
+
+  /**
+   * Rename the keys of a selection (or codelist map) to the dimension codes they resolve to.
+   * Ambiguous and unknown keys are kept as given, so validation can report them.
+   */
+  async resolveVariableKeysFor<T>(tableId: string, record: Record<string, T>, lang = 'en'): Promise<Record<string, T>> {
+    const metadata = await this.getTableMetadata(tableId, lang);
+    const resolutions = await this.resolveVariableKeys(tableId, lang, metadata, Object.keys(record));
+
+    const renamed: Record<string, T> = {};
+    for (const [key, value] of Object.entries(record)) {
+      const resolution = resolutions[key];
+      renamed[resolution.status === 'resolved' ? resolution.code : key] = value;
+    }
+    return renamed;
+  }
+
+  /**
+   * Resolve selection keys to dimension codes using labels in both Swedish and English.
+   * The other language's metadata is only loaded when a key is not an exact code or label.
+   */
+  private async resolveVariableKeys(
+    tableId: string,
+    lang: string,
+    metadata: Dataset,
+    keys: string[]
+  ): Promise<Record<string, VariableResolution>> {
+    const labelsByCode = new Map(Object.entries(metadata.dimension).map(([code, dim]) => [code, [dim.label]]));
+    const resolveAll = () => {
+      const candidates = [...labelsByCode].map(([code, labels]) => ({ code, labels }));
+      return Object.fromEntries(keys.map(key => [key, resolveVariableName(key, candidates)]));
+    };
+
+    let resolutions = resolveAll();
+    const uncertain = keys.some(key => {
+      const resolution = resolutions[key];
+      return resolution.status !== 'resolved' || resolution.score < 0.95;
+    });
+
+    if (uncertain) {
+      try {
+        const other = await this.getTableMetadata(tableId, lang === 'sv' ? 'en' : 'sv');
+        for (const [code, dim] of Object.entries(other.dimension)) {
+          labelsByCode.get(code)?.push(dim.label);
+        }
+        resolutions = resolveAll();
+      } catch {
+        // Labels in the request language are enough to go on
+      }
+    }
+
+    return resolutions;
+  }
+
+  /**
+   * The data request (URL and POST body) sent for a validated selection, before any chunking
+   */
+  describeDataRequest(
+    tableId: string,
+    selection: Record<string, string[]>,
+    validation: SelectionValidation,
+    lang = 'en',
+    options: TableDataOptions = {}
+  ): { method: 'POST'; url: string; body: VariablesSelection } {
+    // Use the translated selection and codelist keys for the API call
     const finalSelection = validation.translatedSelection || selection;
+    const codelists = validation.translatedCodelists || options.codelists || {};
 
-    // Use POST for complex selections - request JSON-stat2 format  
-    const url = `${this.baseUrl}/tables/${tableId}/data?lang=${lang}&outputFormat=json-stat2`;
-    
-    await this.checkRateLimit();
-    
-    const selectionArray = Object.entries(finalSelection).map(([variableCode, valueCodes]) => ({
-      variableCode: variableCode,
-      valueCodes: Array.isArray(valueCodes) ? valueCodes : [valueCodes]
-    }));
+    return {
+      method: 'POST',
+      url: `${this.baseUrl}/tables/${tableId}/data?lang=${lang}&outputFormat=json-stat2`,
+      body: {
+        selection: this.toSelectionArray(finalSelection, codelists),
+        ...(options.placement ? { placement: options.placement } : {})
+      }
+    };
+  }
 
+  /**
+   * Validate a selection and build the POST body for the data endpoint
+   */
+  private async prepareDataRequest(
+    tableId: string,
+    selection: Record<string, string[]>,
+    lang: string,
+    options: TableDataOptions
+  ): Promise<{
+    body: VariablesSelection;
+    codelists: Record<string, string>;
+    expandedSelection?: Record<string, string[]>;
+    resolvedValueLabels?: SelectionValidation['resolvedValueLabels'];
+  }> {
+    // Validate selection before making API call
+    const validation = await this.validateSelection(tableId, selection, lang, options.codelists || {});
+    if (!validation.isValid) {
+      throw new BadSelectionError(`Selection validation failed:\n${validation.errors.join('\n')}`, {
+        errors: validation.errors,
+        suggestions: validation.suggestions
+      });
+    }
+
+    const { body } = this.describeDataRequest(tableId, selection, validation, lang, options);
+
+    return {
+      body,
+      codelists: validation.translatedCodelists || options.codelists || {},
+      expandedSelection: validation.expandedSelection,
+      resolvedValueLabels: validation.resolvedValueLabels
+    };
+  }
 
-    const response = await fetch(url, {
+  /**
+   * POST a selection to the data endpoint, turning 400/403 responses into typed errors
+   */
+  private async postTableData(endpoint: string, body: unknown, accept: string): Promise<Response> {
+    // Data POSTs only read, so they are safe to retry
+    const response = await this.fetchUpstream(`${this.baseUrl}${endpoint}`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Accept': 'application/json',
+        'Accept': accept,
         'User-Agent': 'SCB-MCP-Client/1.0'
       },
-      body: JSON.stringify({
-        selection: selectionArray
-      })
-    });
-
-    this.requestCount++;
-    if (this.rateLimitInfo) {
-      this.rateLimitInfo.remaining = Math.max(0, this.rateLimitInfo.maxCalls - this.requestCount);
-    }
+      body: JSON.stringify(body)
+    }, true);
 
     if (!response.ok) {
-      if (response.status === 429) {
-        throw new Error(`Rate limit exceeded (429). Wait and try again.`);
-      }
-      if (response.status === 403) {
-        throw new Error(`Request forbidden (403). The query may result in too many data cells (limit: ${this.rateLimitInfo?.maxCalls || 'unknown'}). Try using more specific selections.`);
-      }
-      if (response.status === 400) {
-        // Parse 400 errors more specifically with actionable guidance
-        let errorMessage = 'Bad request (400)';
-        let troubleshootingTips = [];
-        
-        try {
-          const errorText = await response.text();
-          
-          // Look for specific error patterns
-          if (errorText.toLowerCase().includes('variable') || errorText.toLowerCase().includes('variablecode')) {
-            errorMessage = 'Invalid variable name or code in selection';
-            troubleshootingTips.push('Use scb_get_table_variables to see all available variable names');
-            troubleshootingTips.push('Check that variable names match exactly (case-sensitive)');
-            troubleshootingTips.push('Try scb_test_selection to validate your selection first');
-          } else if (errorText.toLowerCase().includes('value') || errorText.toLowerCase().includes('valuecode')) {
-            errorMessage = 'Invalid variable values in selection';
-            troubleshootingTips.push('Use scb_get_table_variables with variableName to see valid values');
-            troubleshootingTips.push('For time data, try formats like "2024" or "2024M12" for monthly');
-            troubleshootingTips.push('For regions, verify codes with scb_find_region_code');
-          } else if (errorText.toLowerCase().includes('selection')) {
-            errorMessage = 'Invalid selection format or syntax';
-            troubleshootingTips.push('Use format: {"VariableName": ["value1", "value2"]}');
-            troubleshootingTips.push('Ensure variable names use proper case (e.g., "Region", not "region")');
-            troubleshootingTips.push('Test your selection with scb_test_selection first');
-          } else if (errorText.toLowerCase().includes('time') || errorText.toLowerCase().includes('date')) {
-            errorMessage = 'Invalid time/date format in selection';
-            troubleshootingTips.push('For annual data, use "2024"');
-            troubleshootingTips.push('For monthly data, use "2024M12" format');
-            troubleshootingTips.push('Check available time values with scb_get_table_variables');
-          } else {
-            // Generic error with server response
-            errorMessage = `Bad request (400): ${errorText.substring(0, 150)}`;
-            troubleshootingTips.push('Use scb_test_selection to validate your selection');
-            troubleshootingTips.push('Check variable names and values with scb_get_table_variables');
-          }
-          
-        } catch (e) {
-          errorMessage = 'Bad request (400) - Could not parse error details';
-          troubleshootingTips.push('Use scb_test_selection to validate your selection');
-          troubleshootingTips.push('Check the table and selection format');
-        }
-        
-        const fullError = troubleshootingTips.length > 0 
-          ? `${errorMessage}\n\nTroubleshooting suggestions:\n${troubleshootingTips.map(tip => `• ${tip}`).join('\n')}`
-          : errorMessage;
-          
-        throw new Error(fullError);
+      const error = await this.responseError(response, `${this.baseUrl}${endpoint}`);
+      if (error instanceof BadSelectionError) {
+        error.suggestions.push(...selectionTroubleshooting(error.message));
       }
-      throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      throw error;
     }
 
-    const data = await response.json();
-    return DatasetSchema.parse(data);
+    return response;
+  }
+
+  /**
+   * Convert a {variable: values} selection into the PxAPI VariableSelection array
+   */
+  private toSelectionArray(selection: Record<string, string[]>, codelists: Record<string, string> = {}): VariableSelection[] {
+    return Object.entries(selection).map(([variableCode, valueCodes]) => ({
+      variableCode: variableCode,
+      valueCodes: Array.isArray(valueCodes) ? valueCodes : [valueCodes],
+      ...(codelists[variableCode] ? { codeList: codelists[variableCode] } : {})
+    }));
+  }
+
+  /**
+   * Validate a selection and store it as a saved query that can be shared by id
+   */
+  async createSavedQuery(
+    tableId: string,
+    selection: Record<string, string[]>,
+    lang = 'en',
+    options: TableDataOptions & { outputFormat?: string } = {}
+  ): Promise<SavedQuery> {
+    if (options.outputFormat) {
+      await this.assertOutputFormat(options.outputFormat);
+    }
+
+    const body: SavedQuery = {
+      tableId,
+      language: lang,
+      selection: (await this.prepareDataRequest(tableId, selection, lang, options)).body,
+      ...(options.outputFormat ? { outputFormat: options.outputFormat } : {})
+    };
+
+    return this.makeRequest('/savedqueries', SavedQuerySchema, body);
+  }
+
+  async getSavedQuery(savedQueryId: string): Promise<SavedQuery> {
+    return this.makeRequest(`/savedqueries/${encodeURIComponent(savedQueryId)}`, SavedQuerySchema);
+  }
+
+  async runSavedQuery(savedQueryId: string, lang = 'en'): Promise<Dataset> {
+    const endpoint = `/savedqueries/${encodeURIComponent(savedQueryId)}/data?lang=${lang}&outputFormat=json-stat2`;
+    return this.makeRequest(endpoint, DatasetSchema);
+  }
+
+  /**
+   * Run a saved query and return the payload in a native output format (csv, xlsx, px, ...)
+   */
+  async runSavedQueryFormatted(savedQueryId: string, format: string, lang = 'en', outputFormatParams: string[] = []): Promise<FormattedData> {
+    await this.assertOutputFormat(format, outputFormatParams);
+    const endpoint = `/savedqueries/${encodeURIComponent(savedQueryId)}/data?lang=${lang}&${this.toFormatParams(format, outputFormatParams)}`;
+    return this.makeRawRequest(endpoint, format);
   }
 
   /**
@@ -538,12 +1226,22 @@ export class SCBApiClient {
       };
     }
 
-    const dimensions = Object.entries(jsonStat2Data.dimension);
-    const dimensionSizes = dimensions.map(([_, dimDef]) => Object.keys(dimDef.category.index).length);
+    // Cells are laid out in the order of `id`, last dimension fastest
+    const dimNames = jsonStat2Data.id.filter(dimName => jsonStat2Data.dimension[dimName]);
+    const dimensions = dimNames.map(dimName => [dimName, jsonStat2Data.dimension[dimName]] as const);
+    const dimensionCodes = dimNames.map(dimName => categoryCodes(jsonStat2Data, dimName));
+    const kinds = classifyDimensions(jsonStat2Data);
+    const fieldNames = this.getDimensionBaseNames(jsonStat2Data);
+    const baseNames = dimNames.map(dimName => fieldNames[dimName]);
+    // Typed periods for the time dimension, so records from tables with different frequencies line up
+    const timeIndex = dimNames.findIndex(dimName => kinds[dimName] === 'time');
+    const periods = new Map((timeIndex >= 0 ? dimensionCodes[timeIndex] : []).map(code => [code, parseTimePeriod(code)]));
     
     // Transform each data point into a structured record
     jsonStat2Data.value.forEach((value, flatIndex) => {
-      if (value === null) return; // Skip null values
+      // Suppressed and missing cells are null; keep them when SCB says why
+      const status = cellStatus(jsonStat2Data.status, flatIndex);
+      if (value === null && status === null) return;
       
       const record: Record<string, any> = {};
       
@@ -551,29 +1249,43 @@ export class SCBApiClient {
       let temp = flatIndex;
       for (let i = dimensions.length - 1; i >= 0; i--) {
         const [dimName, dimDef] = dimensions[i];
-        const dimSize = dimensionSizes[i];
-        const dimIndex = temp % dimSize;
-        temp = Math.floor(temp / dimSize);
+        const codes = dimensionCodes[i];
+        const dimIndex = temp % codes.length;
+        temp = Math.floor(temp / codes.length);
         
         // Get the code and label for this dimension value
-        const codes = Object.keys(dimDef.category.index);
         const code = codes[dimIndex];
         const label = dimDef.category.label ? dimDef.category.label[code] : code;
         
         // Add both code and human-readable name to the record
-        const baseName = this.getDimensionBaseName(dimName);
+        const baseName = baseNames[i];
         record[`${baseName}_code`] = code;
         record[`${baseName}_name`] = label || code;
+
+        const period = i === timeIndex ? periods.get(code) : null;
+        if (period) {
+          record.period_start = period.start;
+          record.period_end = period.end;
+          record.frequency = period.frequency;
+        }
       }
       
       record.value = value;
+      if (status !== null) record.status = status;
       records.push(record);
     });
 
     // Calculate summary statistics
     const totalRecords = records.length;
-    const totalValue = records.reduce((sum, record) => sum + (record.value || 0), 0);
+    const measureDim = dimNames.find(dimName => kinds[dimName] === 'measure');
+    const units = measureUnits(jsonStat2Data);
+    const byMeasure = summarizeByMeasure(
+      records,
+      measureDim ? baseNames[dimNames.indexOf(measureDim)] : null,
+      units
+    );
     const nonNullRecords = records.filter(r => r.value !== null && r.value !== undefined);
+    const statusRecords = records.filter(r => r.status !== undefined);
 
     // Extract table_id from extension.px.tableid if available, otherwise from id array
     const tableId = jsonStat2Data.extension?.px?.tableid ||
@@ -591,49 +1303,94 @@ export class SCBApiClient {
         updated: jsonStat2Data.updated,
         table_name: jsonStat2Data.label,
         data_shape: jsonStat2Data.size,
-        dimensions: dimensions.map(([name, def]) => ({
+        dimensions: dimensions.map(([name, def], i) => ({
           name,
+          // Prefix of this dimension's fields in the records (field_code, field_name)
+          field: baseNames[i],
           label: def.label,
-          values_count: Object.keys(def.category.index).length
-        }))
+          role: dimensionRole(jsonStat2Data, name),
+          kind: kinds[name],
+          values_count: Object.keys(def.category.index).length,
+          ...(def.note?.length ? { notes: def.note } : {})
+        })),
+        // Unit and decimals per ContentsCode value
+        units,
+        notes: jsonStat2Data.note || []
       },
       summary: {
         total_records: totalRecords,
         non_null_records: nonNullRecords.length,
-        total_value: totalValue,
+        // Cells with a status symbol, e.g. ".." for values SCB suppressed
+        records_with_status: statusRecords.length,
+        // Statistics per measure; values are only summed where that makes sense
+        by_measure: byMeasure,
         has_data: totalRecords > 0
       }
     };
   }
 
   /**
-   * Convert dimension names to user-friendly base names
+   * Convert the dataset's dimension names to user-friendly base names.
+   * The first time, geography and measure dimension get the same name in every table, whatever
+   * SCB calls them; further dimensions of the same kind (Region and Lan) keep their own names,
+   * so no two dimensions share record fields.
    */
-  getDimensionBaseName(dimName: string): string {
+  getDimensionBaseNames(dataset: Dataset): Record<string, string> {
+    const kindNames: Record<DimensionKind, string | null> = {
+      time: 'period',
+      geo: 'region',
+      measure: 'observation_type',
+      other: null
+    };
     const nameMapping: Record<string, string> = {
-      'Region': 'region',
       'Alder': 'age', 
       'Kon': 'sex',
-      'Tid': 'year',
       'UtbildningsNiva': 'education_level',
-      'ContentsCode': 'observation_type',
       'Sysselsattning': 'employment_status',
       'Civilstand': 'marital_status',
       'Familjetyp': 'family_type'
     };
-    
-    return nameMapping[dimName] || dimName.toLowerCase();
+
+    const dimNames = dataset.id.length > 0 ? dataset.id : Object.keys(dataset.dimension);
+    const kinds = classifyDimensions(dataset);
+    const names: Record<string, string> = {};
+    const taken = new Set<string>();
+    const assign = (dimName: string, name: string) => {
+      let unique = name;
+      for (let n = 2; taken.has(unique); n++) unique = `${name}_${n}`;
+      names[dimName] = unique;
+      taken.add(unique);
+    };
+
+    // Kind names first, so a dimension that happens to be called "Period" cannot take one
+    for (const dimName of dimNames) {
+      const kindName = kindNames[kinds[dimName]];
+      if (kindName && !taken.has(kindName)) assign(dimName, kindName);
+    }
+    for (const dimName of dimNames) {
+      if (!names[dimName]) assign(dimName, nameMapping[dimName] || dimName.toLowerCase());
+    }
+    return names;
+  }
+
+  getMetadataCacheStats(): MetadataCacheStats {
+    return this.metadataCache.getStats();
+  }
+
+  getDataCacheStats(): DataCacheStats {
+    return this.dataCache.getStats();
   }
 
   getRateLimitInfo(): RateLimitInfo | null {
     return this.rateLimitInfo;
   }
 
-  getUsageInfo(): { requestCount: number; windowStart: Date; rateLimitInfo: RateLimitInfo | null } {
+  getUsageInfo(): { requestCount: number; windowStart: Date; rateLimitInfo: RateLimitInfo | null; queue: RateLimiterState } {
     return {
       requestCount: this.requestCount,
       windowStart: this.windowStartTime,
-      rateLimitInfo: this.rateLimitInfo
+      rateLimitInfo: this.rateLimitInfo,
+      queue: this.rateLimiter.getState()
     };
   }
 
@@ -654,9 +1411,10 @@ export class SCBApiClient {
     for (const tableId of tablesToSearch) {
       try {
         const metadata = await this.getTableMetadata(tableId, lang);
-        if (!metadata.dimension || !metadata.dimension.Region) continue;
+        const regionDim = findDimension(metadata, 'geo');
+        if (!regionDim) continue;
 
-        const regionDef = metadata.dimension.Region;
+        const regionDef = metadata.dimension[regionDim];
         const regionCodes = Object.keys(regionDef.category.index);
 
         for (const code of regionCodes) {
@@ -712,9 +1470,10 @@ export class SCBApiClient {
     for (const tId of tables) {
       try {
         const metadata = await this.getTableMetadata(tId, lang);
-        if (!metadata.dimension || !metadata.dimension.Region) continue;
+        const regionDim = findDimension(metadata, 'geo');
+        if (!regionDim) continue;
 
-        const regionDef = metadata.dimension.Region;
+        const regionDef = metadata.dimension[regionDim];
         const regionCodes = Object.keys(regionDef.category.index);
 
         for (const code of regionCodes) {
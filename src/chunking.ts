@@ -0,0 +1,124 @@
+/**
+ * Splitting of selections that exceed maxDataCells, and merging of the results
+ *
+ * SCB rejects requests above maxDataCells with a 403. Large selections are cut
+ * along their largest dimension into requests that fit, and the JSON-stat2
+ * pieces are merged back into one dataset.
+ */
+
+import { Dataset, JsonStatUnit } from './types.js';
+import { cellStatus } from './json-stat.js';
+
+export function countCells(selection: Record<string, string[]>): number {
+  return Object.values(selection).reduce((acc, codes) => acc * codes.length, 1);
+}
+
+/**
+ * Split an expanded selection (explicit codes only) into chunks of at most maxCells cells
+ */
+export function splitSelection(selection: Record<string, string[]>, maxCells: number): Array<Record<string, string[]>> {
+  const cells = countCells(selection);
+  if (cells <= maxCells) return [selection];
+
+  // Cut along the largest dimension that can still be split
+  const [dimName, codes] = Object.entries(selection)
+    .filter(([_, dimCodes]) => dimCodes.length > 1)
+    .sort((a, b) => b[1].length - a[1].length)[0] || [];
+
+  if (!dimName || !codes) {
+    throw new Error(`Selection of ${cells} cells cannot be split below the limit of ${maxCells} cells`);
+  }
+
+  const cellsPerCode = cells / codes.length;
+  const codesPerChunk = Math.max(1, Math.floor(maxCells / cellsPerCode));
+
+  const chunks: Array<Record<string, string[]>> = [];
+  for (let i = 0; i < codes.length; i += codesPerChunk) {
+    const chunk = { ...selection, [dimName]: codes.slice(i, i + codesPerChunk) };
+    // A single code may still be too large - keep splitting along the next dimension
+    chunks.push(...splitSelection(chunk, maxCells));
+  }
+
+  return chunks;
+}
+
+/**
+ * Merge JSON-stat2 datasets fetched for chunks of one selection into a single dataset
+ */
+export function mergeDatasets(parts: Dataset[]): Dataset {
+  if (parts.length === 0) {
+    throw new Error('No datasets to merge');
+  }
+  if (parts.length === 1) return parts[0];
+
+  const base = parts[0];
+  const dimNames = base.id;
+
+  // Union of category codes per dimension, in the order they were fetched
+  const codesByDim: Record<string, string[]> = {};
+  const labelsByDim: Record<string, Record<string, string>> = {};
+  const unitsByDim: Record<string, Record<string, JsonStatUnit>> = {};
+  for (const dimName of dimNames) {
+    const seen: string[] = [];
+    const labels: Record<string, string> = {};
+    for (const part of parts) {
+      const category = part.dimension[dimName].category;
+      if (category.unit) {
+        unitsByDim[dimName] = { ...unitsByDim[dimName], ...category.unit };
+      }
+      const ordered = Object.keys(category.index).sort((a, b) => category.index[a] - category.index[b]);
+      for (const code of ordered) {
+        if (!labels[code]) {
+          seen.push(code);
+          labels[code] = category.label?.[code] || code;
+        }
+      }
+    }
+    codesByDim[dimName] = seen;
+    labelsByDim[dimName] = labels;
+  }
+
+  const size = dimNames.map(dimName => codesByDim[dimName].length);
+  const positions = dimNames.map(dimName => new Map(codesByDim[dimName].map((code, i) => [code, i])));
+  const value: Array<number | null> = new Array(size.reduce((a, b) => a * b, 1)).fill(null);
+  const status: Record<string, string> = {};
+
+  for (const part of parts) {
+    const partCodes = dimNames.map(dimName => {
+      const index = part.dimension[dimName].category.index;
+      return Object.keys(index).sort((a, b) => index[a] - index[b]);
+    });
+
+    (part.value || []).forEach((cellValue, flatIndex) => {
+      let temp = flatIndex;
+      let target = 0;
+      let stride = 1;
+      for (let i = dimNames.length - 1; i >= 0; i--) {
+        const dimSize = partCodes[i].length;
+        const code = partCodes[i][temp % dimSize];
+        temp = Math.floor(temp / dimSize);
+        target += positions[i].get(code)! * stride;
+        stride *= size[i];
+      }
+      value[target] = cellValue;
+      const cellSymbol = cellStatus(part.status, flatIndex);
+      if (cellSymbol !== null) status[String(target)] = cellSymbol;
+    });
+  }
+
+  return {
+    ...base,
+    size,
+    dimension: Object.fromEntries(dimNames.map(dimName => [dimName, {
+      ...base.dimension[dimName],
+      category: {
+        ...base.dimension[dimName].category,
+        index: Object.fromEntries(codesByDim[dimName].map((code, i) => [code, i])),
+        label: labelsByDim[dimName],
+        ...(unitsByDim[dimName] ? { unit: unitsByDim[dimName] } : {})
+      }
+    }])),
+    value,
+    status: Object.keys(status).length > 0 ? status : undefined
+  };
+}
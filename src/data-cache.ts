@@ -0,0 +1,137 @@
+/**
+ * Cache of fetched datasets, keyed on a canonical form of the request
+ *
+ * The key is built from table id, language, codelists and the selection with
+ * every expression resolved to explicit codes and sorted, so `TOP(1)` and
+ * `["2024"]` hit the same entry. The cache is bounded by an estimate of the
+ * memory it holds, and entries are dropped when the table's `updated` moves.
+ */
+
+import { createHash } from 'crypto';
+import { Dataset } from './types.js';
+
+export interface DataCacheStats {
+  hits: number;
+  misses: number;
+  invalidations: number;
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+}
+
+interface CacheEntry {
+  // Upper case, like the table id in the key
+  tableId: string;
+  updated?: string;
+  fetchedAt: number;
+  bytes: number;
+  dataset: Dataset;
+}
+
+/**
+ * Canonical cache key for a data request. Pass the expanded selection (explicit codes only).
+ */
+export function dataCacheKey(
+  tableId: string,
+  lang: string,
+  selection: Record<string, string[]> | undefined,
+  codelists: Record<string, string> = {}
+): string {
+  const sortedEntries = <T>(record: Record<string, T>) =>
+    Object.entries(record).sort(([a], [b]) => a.localeCompare(b));
+
+  const canonical = JSON.stringify({
+    table: tableId.toUpperCase(),
+    lang,
+    codelists: sortedEntries(codelists),
+    selection: selection
+      ? sortedEntries(selection).map(([varCode, codes]) => [varCode, [...new Set(codes)].sort()])
+      : null
+  });
+
+  return createHash('sha256').update(canonical).digest('hex');
+}
+
+export class DataCache {
+  private entries = new Map<string, CacheEntry>();
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private invalidations = 0;
+
+  constructor(private maxBytes: number) {}
+
+  /**
+   * Look up a dataset. currentUpdated is the table's latest known `updated` value, if any.
+   */
+  get(key: string, currentUpdated?: string): { dataset: Dataset; fetchedAt: Date } | null {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return null;
+    }
+
+    if (currentUpdated && entry.updated && entry.updated !== currentUpdated) {
+      this.remove(key);
+      this.invalidations++;
+      this.misses++;
+      return null;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return { dataset: entry.dataset, fetchedAt: new Date(entry.fetchedAt) };
+  }
+
+  /**
+   * Store a dataset. Datasets that would take up most of the cache are not kept unless
+   * keepLarge is set (for results that are paged), and never when larger than the cache.
+   */
+  set(key: string, tableId: string, dataset: Dataset, updated?: string, keepLarge = false): void {
+    const bytes = Buffer.byteLength(JSON.stringify(dataset));
+    if (bytes > (keepLarge ? this.maxBytes : this.maxBytes / 2)) return;
+
+    this.remove(key);
+    this.entries.set(key, { tableId: tableId.toUpperCase(), updated: dataset.updated ?? updated, fetchedAt: Date.now(), bytes, dataset });
+    this.bytes += bytes;
+
+    // Evict least recently used entries (first in insertion order)
+    while (this.bytes > this.maxBytes) {
+      this.remove(this.entries.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Drop datasets fetched before the table's latest update
+   */
+  noteTableUpdated(tableId: string, updated: string): void {
+    const normalized = tableId.toUpperCase();
+    for (const [key, entry] of this.entries) {
+      if (entry.tableId === normalized && entry.updated && entry.updated !== updated) {
+        this.remove(key);
+        this.invalidations++;
+      }
+    }
+  }
+
+  getStats(): DataCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      invalidations: this.invalidations,
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxBytes: this.maxBytes
+    };
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.bytes -= entry.bytes;
+      this.entries.delete(key);
+    }
+  }
+}
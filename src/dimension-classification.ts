@@ -0,0 +1,71 @@
+/**
+ * Classification of a table's dimensions as time, geography or measure
+ *
+ * JSON-stat `role` says which dimensions hold time, geography and measures
+ * (metric). Metadata without roles falls back on the dimension code and
+ * label (Tid, Region, ContentsCode and their translations) and finally on
+ * the shape of the category codes: periods like 2024M03, codes from the
+ * regions database, or categories that carry units.
+ */
+
+import { Dataset } from './types.js';
+import { dimensionRole } from './json-stat.js';
+import { isPeriodCode } from './time-periods.js';
+import { REGIONS_BY_CODE } from './regions.js';
+
+export type DimensionKind = 'time' | 'geo' | 'measure' | 'other';
+
+// Share of category codes that must have the expected shape for the code-based fallback
+const CODE_SHAPE_SHARE = 0.8;
+
+/**
+ * Classify one dimension of a dataset (data or metadata)
+ */
+export function classifyDimension(dataset: Dataset, dimName: string): DimensionKind {
+  const role = dimensionRole(dataset, dimName);
+  if (role) return role === 'metric' ? 'measure' : role;
+
+  const dim = dataset.dimension[dimName];
+  if (!dim) return 'other';
+  const label = dim.label.trim();
+
+  if (/^tid$/i.test(dimName) || /^(tid|time|år|year|period|månad|month|kvartal|quarter|vecka|week)\b/i.test(label)) {
+    return 'time';
+  }
+  if (/^contentscode$/i.test(dimName) || /^(tabellinnehåll|table contents|observations)\b/i.test(label)) {
+    return 'measure';
+  }
+  if (/^region$/i.test(dimName) || /^(region|län|kommun|county|municipality)/i.test(label)) {
+    return 'geo';
+  }
+
+  const codes = Object.keys(dim.category.index);
+  if (dim.category.unit && Object.keys(dim.category.unit).length > 0) return 'measure';
+  // Municipality codes make the match; two-digit county codes alone also look like many other classifications.
+  // Checked before periods, since a municipality code like 0114 also reads as a year.
+  if (hasShape(codes, code => REGIONS_BY_CODE.has(code)) && codes.some(code => code.length === 4 && REGIONS_BY_CODE.has(code))) {
+    return 'geo';
+  }
+  if (hasShape(codes, isPeriodCode)) return 'time';
+
+  return 'other';
+}
+
+/**
+ * Kind of every dimension, in the dataset's dimension order
+ */
+export function classifyDimensions(dataset: Dataset): Record<string, DimensionKind> {
+  const dimNames = dataset.id?.length ? dataset.id : Object.keys(dataset.dimension);
+  return Object.fromEntries(dimNames.map(dimName => [dimName, classifyDimension(dataset, dimName)]));
+}
+
+/**
+ * The first dimension of a kind, e.g. the time dimension of a table
+ */
+export function findDimension(dataset: Dataset, kind: Exclude<DimensionKind, 'other'>): string | undefined {
+  return Object.entries(classifyDimensions(dataset)).find(([, dimKind]) => dimKind === kind)?.[0];
+}
+
+function hasShape(codes: string[], test: (code: string) => boolean): boolean {
+  return codes.length > 0 && codes.filter(test).length / codes.length >= CODE_SHAPE_SHARE;
+}
@@ -0,0 +1,175 @@
+/**
+ * Typed errors for SCB API failures
+ *
+ * PxWebAPI 2.0 reports errors as RFC 7807 problem details
+ * (application/problem+json: type, title, status, detail, instance). The
+ * parsed body travels with the error together with the HTTP status, the
+ * request URL and whether trying again later can help, so tool handlers
+ * never have to dig details back out of the message.
+ */
+
+import { ZodError } from 'zod';
+import type { Response } from 'node-fetch';
+
+export interface ProblemDetails {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+  [key: string]: unknown;
+}
+
+export interface ScbApiErrorOptions {
+  status?: number;
+  problem?: ProblemDetails;
+  url?: string;
+}
+
+export class ScbApiError extends Error {
+  // Short machine-readable kind, used as the error type in tool responses
+  readonly code: string = 'api_error';
+  readonly retryable: boolean = false;
+  readonly status?: number;
+  readonly problem?: ProblemDetails;
+  readonly url?: string;
+
+  constructor(message: string, options: ScbApiErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = options.status;
+    this.problem = options.problem;
+    this.url = options.url;
+  }
+}
+
+/**
+ * 429 from SCB, or a local queue wait longer than the configured maximum
+ */
+export class RateLimitedError extends ScbApiError {
+  readonly code = 'rate_limited';
+  readonly retryable = true;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: ScbApiErrorOptions & { retryAfterMs?: number } = {}) {
+    super(message, options);
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export class NotFoundError extends ScbApiError {
+  readonly code = 'not_found';
+}
+
+/**
+ * SCB answers 403 when a selection spans more than maxDataCells cells
+ */
+export class TooManyCellsError extends ScbApiError {
+  readonly code = 'too_many_cells';
+  readonly maxCells?: number;
+
+  constructor(message: string, options: ScbApiErrorOptions & { maxCells?: number } = {}) {
+    super(message, options);
+    this.maxCells = options.maxCells;
+  }
+}
+
+/**
+ * A selection rejected by SCB (400) or by local validation before sending it
+ */
+export class BadSelectionError extends ScbApiError {
+  readonly code = 'bad_selection';
+  readonly errors: string[];
+  readonly suggestions: string[];
+
+  constructor(message: string, options: ScbApiErrorOptions & { errors?: string[]; suggestions?: string[] } = {}) {
+    super(message, options);
+    this.errors = options.errors || [];
+    this.suggestions = options.suggestions || [];
+  }
+}
+
+/**
+ * 5xx responses, timeouts and network failures that outlasted the retries
+ */
+export class UpstreamUnavailableError extends ScbApiError {
+  readonly code = 'upstream_unavailable';
+  readonly retryable = true;
+}
+
+/**
+ * A response that does not have the shape the API documents
+ */
+export class SchemaMismatchError extends ScbApiError {
+  readonly code = 'schema_mismatch';
+  readonly issues: string[];
+
+  constructor(message: string, options: ScbApiErrorOptions & { issues?: string[] } = {}) {
+    super(message, options);
+    this.issues = options.issues || [];
+  }
+}
+
+/**
+ * Parse an error body as problem details. Returns undefined for HTML pages and other non-JSON bodies.
+ */
+export function parseProblemDetails(text: string): ProblemDetails | undefined {
+  try {
+    const body = JSON.parse(text);
+    if (body && typeof body === 'object' && !Array.isArray(body) &&
+        ('title' in body || 'detail' in body || 'type' in body || 'status' in body)) {
+      return body as ProblemDetails;
+    }
+  } catch {
+    // Not JSON
+  }
+  return undefined;
+}
+
+/**
+ * Build the error for a non-OK response, reading its problem+json body if there is one
+ */
+export async function errorFromResponse(
+  response: Response,
+  url: string,
+  context: { maxCells?: number; retryAfterMs?: number } = {}
+): Promise<ScbApiError> {
+  const text = await response.text().catch(() => '');
+  const problem = parseProblemDetails(text);
+  const status = response.status;
+  const options = { status, problem, url };
+
+  const upstream = problem?.detail || problem?.title ||
+    (/<html|<!DOCTYPE html/i.test(text) ? 'Server returned an HTML error page' : text.trim().slice(0, 300));
+  const reason = upstream ? `: ${upstream}` : '';
+
+  switch (true) {
+    case status === 429:
+      return new RateLimitedError(`Rate limit exceeded (429)${reason}`, { ...options, retryAfterMs: context.retryAfterMs });
+    case status === 404:
+      return new NotFoundError(`Not found (404)${reason}`, options);
+    case status === 403:
+      return new TooManyCellsError(
+        `Request forbidden (403). The query may result in too many data cells ` +
+        `(limit: ${context.maxCells ?? 'unknown'} cells)${reason}`,
+        { ...options, maxCells: context.maxCells }
+      );
+    case status === 400:
+      return new BadSelectionError(`Bad request (400)${reason}`, options);
+    case status >= 500:
+      return new UpstreamUnavailableError(`SCB API unavailable (${status} ${response.statusText})${reason}`, options);
+    default:
+      return new ScbApiError(`API request failed: ${status} ${response.statusText}${reason}`, options);
+  }
+}
+
+/**
+ * Wrap a zod failure on an API response
+ */
+export function schemaMismatch(error: ZodError, url: string): SchemaMismatchError {
+  const issues = error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  return new SchemaMismatchError(
+    `Unexpected response shape from ${url}: ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? ` (+${issues.length - 3} more)` : ''}`,
+    { url, issues }
+  );
+}
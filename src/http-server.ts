@@ -14,6 +14,9 @@ import {
   GetPromptRequestSchema,
   ListResourcesRequestSchema,
   ReadResourceRequestSchema,
+  DEFAULT_NEGOTIATED_PROTOCOL_VERSION,
+  LATEST_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
 } from '@modelcontextprotocol/sdk/types.js';
 import { SCBMCPServer } from './index.js';
 import { prompts, getPromptById, generatePromptMessages } from './prompts.js';
@@ -22,6 +25,9 @@ import { resources, getResourceContent } from './resources.js';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// Protocol version that added structuredContent and outputSchema to tools
+const STRUCTURED_OUTPUT_VERSION = '2025-06-18';
+
 const app = express();
 const PORT = process.env.PORT || 3000;
 
@@ -73,9 +79,9 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
   };
 });
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
   const { name, arguments: args } = request.params;
-  return await mcpServer.callTool(name, args);
+  return await mcpServer.callTool(name, args, extra.signal);
 });
 
 // Setup prompt handlers
@@ -161,7 +167,10 @@ app.post('/mcp', async (req, res) => {
         jsonrpc: '2.0',
         id,
         result: {
-          protocolVersion: '2024-11-05',
+          // The client's version if we support it, otherwise our latest (the client decides whether to go on)
+          protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(params?.protocolVersion)
+            ? params.protocolVersion
+            : LATEST_PROTOCOL_VERSION,
           capabilities: {
             tools: {},
             prompts: {},
@@ -180,6 +189,12 @@ app.post('/mcp', async (req, res) => {
       return res.status(204).end();
     }
 
+    // Cancellation notifications can't be matched to a call here: the server is stateless and
+    // JSON-RPC ids are only unique per client. A client cancels by closing the tools/call request.
+    if (method === 'notifications/cancelled') {
+      return res.status(204).end();
+    }
+
     // Handle tools/list
     if (method === 'tools/list') {
       const tools = mcpServer.getTools();
@@ -195,7 +210,21 @@ app.post('/mcp', async (req, res) => {
     // Handle tools/call
     if (method === 'tools/call') {
       const { name, arguments: args } = params;
-      const result = await mcpServer.callTool(name, args);
+      const controller = new AbortController();
+      // Stop upstream calls if the client goes away
+      res.on('close', () => {
+        if (!res.writableFinished) controller.abort();
+      });
+
+      const result = await mcpServer.callTool(name, args, controller.signal);
+
+      // Clients on a protocol without structured output only read content, so they get the data
+      // as JSON text too. Clients send the negotiated version in a header after initialize.
+      const protocolVersion = req.get('mcp-protocol-version') || DEFAULT_NEGOTIATED_PROTOCOL_VERSION;
+      if (protocolVersion < STRUCTURED_OUTPUT_VERSION && 'structuredContent' in result && result.structuredContent) {
+        result.content.push({ type: 'text', text: JSON.stringify(result.structuredContent, null, 2) });
+      }
+
       return res.status(200).json({
         jsonrpc: '2.0',
         id,
@@ -2,6 +2,7 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
@@ -13,6 +14,28 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 import { fileURLToPath } from 'url';
 import { SCBApiClient } from './api-client.js';
+import { SchemaWarning } from './schema-drift.js';
+import {
+  BadSelectionError,
+  NotFoundError,
+  ProblemDetails,
+  RateLimitedError,
+  ScbApiError,
+  SchemaMismatchError,
+  TooManyCellsError,
+  UpstreamUnavailableError
+} from './errors.js';
+import { Dataset, DefaultSelection, FormattedData, Placement } from './types.js';
+import { pivotDataset } from './pivot.js';
+import { categoryCodes } from './json-stat.js';
+import { SelectionExpression, expandSelectionValues, parseSelectionExpression, resolveSelectionValue } from './selection-expressions.js';
+import { countCells, splitSelection } from './chunking.js';
+import { estimateRecordsSize, estimateTokens } from './response-size.js';
+import { RESPONSE_FORMATS, ResponseFormat, defaultResponseFormat, isResponseFormat, toColumnar, toMarkdownTable } from './response-formats.js';
+import { TOOL_OUTPUT_SCHEMAS } from './tool-output-schemas.js';
+import { InvalidToolArgumentsError, ToolArgs, parseToolArgs } from './tool-input-schemas.js';
+import { DEFAULT_MAX_TOKENS, DataCursor, PageLimits, decodeCursor, encodeCursor, takePage } from './pagination.js';
+import { classifyDimension, findDimension } from './dimension-classification.js';
 import { resources, getResourceContent } from './resources.js';
 import { ALL_REGIONS, searchRegions, findRegion, REGION_STATS, normalizeForSearch } from './regions.js';
 import { LLM_INSTRUCTIONS, STATISTICS_CATEGORIES, WORKFLOW_TEMPLATES, USAGE_TIPS, getCategoryDescriptions } from './instructions.js';
@@ -25,11 +48,19 @@ const SUPPORTED_LANGUAGES = ['sv', 'en'] as const;
 type SupportedLanguage = typeof SUPPORTED_LANGUAGES[number];
 const DEFAULT_LANGUAGE: SupportedLanguage = 'sv';
 const MAX_PAGE_SIZE = 100;
+const PREVIEW_MAX_CELLS = 50;
+const PREVIEW_VALUES_PER_VARIABLE = 2;
 
 // Structured error types for consistent error handling
 interface MCPError {
   type: string;
   message: string;
+  http_status?: number | null;
+  retryable?: boolean;
+  retry_after_seconds?: number | null;
+  url?: string | null;
+  // RFC 7807 problem details returned by SCB, if any
+  problem?: ProblemDetails | null;
   details?: Record<string, any>;
   suggestions?: string[];
 }
@@ -62,6 +93,171 @@ function createErrorResponse(error: MCPError) {
         text: JSON.stringify({ error }, null, 2)
       },
     ],
+    isError: true,
+  };
+}
+
+// Helper function to create a tool result: the data as structuredContent, matching the tool's
+// outputSchema, and a short human-readable summary as text content
+function createToolResult<T extends Record<string, any>>(data: T, summary: string) {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: summary
+      },
+    ],
+    structuredContent: data,
+  };
+}
+
+// Helper function for the text summary of structured records: title, size and statistics per measure
+function structuredDataSummary(structuredData: { metadata: any; summary: any }): string {
+  const { metadata, summary } = structuredData;
+  const lines = [`**${metadata.table_name}** (${summary.total_records.toLocaleString()} values${metadata.updated ? `, updated ${metadata.updated}` : ''})`];
+  for (const measure of summary.by_measure || []) {
+    if (measure.count === 0) continue;
+    lines.push(`- ${measure.measure_name || 'Value'}${measure.unit ? ` (${measure.unit})` : ''}: min ${measure.min}, max ${measure.max}, mean ${measure.mean}${measure.sum !== null ? `, sum ${measure.sum}` : ''}`);
+  }
+  return lines.join('\n');
+}
+
+// Helper function for the text summary of scb_find_region_code results
+function regionMatchSummary(result: { query: string; matches?: Array<{ code: string; name: string }>; error?: string; warning?: string }): string {
+  if (!result.matches?.length) return result.error || `No regions found matching "${result.query}"`;
+
+  const [best, ...others] = result.matches;
+  const lines = [`Best match for "${result.query}": ${best.name} (${best.code})`];
+  if (others.length > 0) lines.push(`Other matches: ${others.slice(0, 4).map(r => `${r.name} (${r.code})`).join(', ')}`);
+  if (result.warning) lines.push(result.warning);
+  return lines.join('\n');
+}
+
+// Helper function to turn a thrown error into the structured error response.
+// SCB API errors keep their own type, status and problem details; anything else uses the fallback type.
+function createApiErrorResponse(error: unknown, fallback: Omit<MCPError, 'message'>) {
+  const message = error instanceof Error ? error.message : String(error);
+  if (!(error instanceof ScbApiError)) {
+    return createErrorResponse({ ...fallback, message });
+  }
+
+  const details: Record<string, any> = { ...fallback.details };
+  if (error instanceof BadSelectionError && error.errors.length > 0) details.validation_errors = error.errors;
+  if (error instanceof SchemaMismatchError) details.schema_issues = error.issues;
+  if (error instanceof TooManyCellsError && error.maxCells) details.max_data_cells = error.maxCells;
+
+  // Retrying is the fix for transient errors; the handler's own tips only apply otherwise
+  const suggestions = [...apiErrorSuggestions(error), ...(error.retryable ? [] : fallback.suggestions || [])];
+
+  return createErrorResponse({
+    type: error.code,
+    message,
+    http_status: error.status ?? null,
+    retryable: error.retryable,
+    retry_after_seconds: error instanceof RateLimitedError && error.retryAfterMs !== undefined
+      ? Math.ceil(error.retryAfterMs / 1000)
+      : null,
+    url: error.url ?? null,
+    problem: error.problem ?? null,
+    details,
+    suggestions: [...new Set(suggestions)]
+  });
+}
+
+function apiErrorSuggestions(error: ScbApiError): string[] {
+  if (error instanceof RateLimitedError) {
+    return ['Wait retry_after_seconds and call again', 'Use scb_check_usage to see the queue and remaining calls'];
+  }
+  if (error instanceof TooManyCellsError) {
+    return ['Use scb_test_selection to see the cell count and narrow the selection'];
+  }
+  if (error instanceof BadSelectionError) {
+    return error.suggestions;
+  }
+  if (error instanceof UpstreamUnavailableError) {
+    return ['SCB may be temporarily unavailable; try again in a minute', 'Use scb_get_api_status to check the API'];
+  }
+  if (error instanceof SchemaMismatchError) {
+    return ['SCB returned data in an unexpected format; the table may use features this server does not support yet'];
+  }
+  return [];
+}
+
+// Helper function to add schema drift warnings to a tool response's structured content
+// (or to the JSON text of error responses, which have none)
+function attachSchemaWarnings<T extends { content: Array<{ type: string; text?: string }>; structuredContent?: Record<string, any> }>(response: T, warnings: SchemaWarning[]): T {
+  if (warnings.length === 0) return response;
+  if (response.structuredContent) {
+    response.structuredContent.schema_warnings = warnings;
+    return response;
+  }
+
+  const first = response.content[0];
+  if (first?.type !== 'text' || !first.text) return response;
+
+  try {
+    const payload = JSON.parse(first.text);
+    if (payload && typeof payload === 'object' && !Array.isArray(payload)) {
+      payload.schema_warnings = warnings;
+      first.text = JSON.stringify(payload, null, 2);
+    }
+  } catch {
+    // Not a JSON payload; nothing to attach to
+  }
+  return response;
+}
+
+// Helper function to shape a page of structured records for the requested response_format ("wide" is pivoted separately)
+function formatRecords(
+  records: Array<Record<string, any>>,
+  dimensions: Array<{ field: string; label: string }>,
+  responseFormat: ResponseFormat
+) {
+  switch (responseFormat) {
+    case 'columnar':
+      return toColumnar(records);
+    case 'markdown_table':
+      return toMarkdownTable(records, Object.fromEntries(dimensions.map(dim => [dim.field, dim.label])));
+    default:
+      return records;
+  }
+}
+
+// Helper function for the token budget when the caller gives none; SCB_MAX_RESPONSE_TOKENS must be a positive integer
+function defaultMaxTokens(): number {
+  const fromEnv = Number(process.env.SCB_MAX_RESPONSE_TOKENS);
+  return Number.isInteger(fromEnv) && fromEnv > 0 ? fromEnv : DEFAULT_MAX_TOKENS;
+}
+
+// Helper function for the layout of response_format "wide": time across the columns
+function wideLayout(dataset: Dataset): Placement {
+  const timeDim = findDimension(dataset, 'time') || dataset.id[dataset.id.length - 1];
+  return { heading: timeDim ? [timeDim] : [] };
+}
+
+// Helper function to pass a native-format payload (csv, xlsx, ...) through as MCP content
+function createFormattedDataContent(data: FormattedData, uri: string, description: string) {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `${description}: ${data.bytes.toLocaleString()} bytes of ${data.mimeType}, attached as resource ${uri}`
+      },
+      {
+        type: 'resource',
+        resource: data.encoding === 'base64'
+          ? { uri, mimeType: data.mimeType, blob: data.body }
+          : { uri, mimeType: data.mimeType, text: data.body }
+      },
+    ],
+    structuredContent: {
+      description,
+      format: data.format,
+      mime_type: data.mimeType,
+      encoding: data.encoding,
+      bytes: data.bytes,
+      resource_uri: uri
+    } as Record<string, any>,
   };
 }
 
@@ -100,6 +296,64 @@ function fuzzyMatchRegion(query: string, regionName: string, regionCode: string)
   return false;
 }
 
+// Helper function to shrink a selection to a small preview sample.
+// Values are expanded against the variable's codes when they are known; variables whose codes
+// are not (e.g. codes from a codelist) keep their first values, with expressions narrowed to two codes.
+function limitSelectionForPreview(
+  selection: Record<string, string[]>,
+  dimensionCodes: Record<string, string[]>
+): Record<string, string[]> {
+  const limited: Record<string, string[]> = {};
+
+  for (const [key, values] of Object.entries(selection)) {
+    const codes = dimensionCodes[key];
+    if (codes) {
+      const sample = new Set<string>();
+      for (const value of values) {
+        const resolved = resolveSelectionValue(value.trim(), codes);
+        // BOTTOM selects the latest values, so keep its end
+        const taken = resolved.expression?.type === 'bottom'
+          ? resolved.codes.slice(-PREVIEW_VALUES_PER_VARIABLE)
+          : resolved.codes.slice(0, PREVIEW_VALUES_PER_VARIABLE);
+        for (const code of taken) {
+          if (sample.size < PREVIEW_VALUES_PER_VARIABLE) sample.add(code);
+        }
+      }
+      if (sample.size > 0) {
+        limited[key] = codes.filter(code => sample.has(code));
+        continue;
+      }
+    }
+
+    limited[key] = values.slice(0, PREVIEW_VALUES_PER_VARIABLE).map(value => narrowExpression(value));
+  }
+
+  return limited;
+}
+
+// Helper function to narrow an expression to at most PREVIEW_VALUES_PER_VARIABLE codes without knowing the codes
+function narrowExpression(value: string): string {
+  let expression: SelectionExpression;
+  try {
+    expression = parseSelectionExpression(value);
+  } catch {
+    return value;
+  }
+  if (expression.type === 'code') return value;
+  if (expression.type === 'bottom') return `BOTTOM(${Math.min(expression.count, PREVIEW_VALUES_PER_VARIABLE)},${expression.offset})`;
+  if (expression.type === 'top') return `TOP(${Math.min(expression.count, PREVIEW_VALUES_PER_VARIABLE)},${expression.offset})`;
+  return `TOP(${PREVIEW_VALUES_PER_VARIABLE})`;
+}
+
+// Helper function to count the cells a selection covers; variables with unknown codes count one cell per value
+function countSelectedCells(selection: Record<string, string[]>, dimensionCodes: Record<string, string[]>): number {
+  return Object.entries(selection).reduce((acc, [key, values]) => {
+    const codes = dimensionCodes[key];
+    const count = codes ? expandSelectionValues(values, codes).length : values.length;
+    return acc * Math.max(count, 1);
+  }, 1);
+}
+
 export class SCBMCPServer {
   private server: Server;
   private apiClient: SCBApiClient;
@@ -215,9 +469,10 @@ export class SCBMCPServer {
     });
 
     // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
-      return await this.callTool(name, args);
+      // extra.signal fires when the client sends notifications/cancelled for this request
+      return await this.callTool(name, args, extra.signal);
     });
   }
 
@@ -230,6 +485,7 @@ export class SCBMCPServer {
           type: 'object',
           properties: {},
         },
+        outputSchema: TOOL_OUTPUT_SCHEMAS.scb_get_api_status,
         annotations: {
           title: 'API Status',
           readOnlyHint: true,
@@ -276,6 +532,7 @@ export class SCBMCPServer {
             },
           },
         },
+        outputSchema: TOOL_OUTPUT_SCHEMAS.scb_search_tables,
         annotations: {
           title: 'Search Tables',
           readOnlyHint: true,
@@ -300,6 +557,7 @@ export class SCBMCPServer {
           },
           required: ['tableId'],
         },
+        outputSchema: TOOL_OUTPUT_SCHEMAS.scb_get_table_info,
         annotations: {
           title: 'Get Table Info',
           readOnlyHint: true,
@@ -308,7 +566,7 @@ export class SCBMCPServer {
       },
       {
         name: 'scb_get_table_data',
-        description: 'Get statistical data from a table with optional filtering. Without selection, returns a smart default subset (latest time period, all categories). Use scb_preview_data for a quick preview first.',
+        description: 'Get statistical data from a table with optional filtering. Without selection, returns the table\'s default selection as defined by SCB (see scb_test_selection). Large results are paged to fit max_tokens/max_records; continue with the returned cursor. Use scb_preview_data for a quick preview first.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -318,12 +576,54 @@ export class SCBMCPServer {
             },
             selection: {
               type: 'object',
-              description: 'Optional variable selection. Format: {"VariableName": ["value1", "value2"]}. Use "*" for all values, "TOP(5)" for latest 5. If omitted, API uses smart defaults.',
+              description: 'Optional variable selection. Format: {"VariableName": ["value1", "value2"]}. Use "*" for all values, "01*" or "??80" as wildcards, "TOP(5)", "BOTTOM(5)", "RANGE(a,b)", "FROM(a)" or "TO(a)". Variables that can be eliminated may be left out. Values may also be labels ("kvinnor", "Göteborg"). Time values may be relative: "latest", "last 5 years", "since 2015", "2020-2024", "2023Q1..2024Q4", "same month last year". If omitted, SCB\'s default selection for the table is used.',
               additionalProperties: {
                 type: 'array',
                 items: { type: 'string' },
               },
             },
+            codelist: {
+              type: 'object',
+              description: 'Optional codelist per variable for alternative groupings. Format: {"VariableName": "codelistId"}, e.g. {"Region": "agg_RegionNUTS2_2008"}. Selection values then refer to the codelist codes. Use scb_get_table_codelists to find codelists.',
+              additionalProperties: { type: 'string' },
+            },
+            format: {
+              type: 'string',
+              description: 'Output format: "json-stat2" (default, structured records) or one of SCB\'s native formats: "csv", "xlsx", "px", "parquet", "html", "json-px". See data_formats in scb_get_api_status.',
+              default: 'json-stat2',
+            },
+            outputFormatParams: {
+              type: 'array',
+              description: 'Optional format parameters for csv/html/xlsx: "UseCodes", "UseTexts" or "UseCodesAndTexts"; "IncludeTitle"; and for csv "SeparatorTab", "SeparatorSpace" or "SeparatorSemicolon"',
+              items: { type: 'string' },
+            },
+            layout: {
+              type: 'object',
+              description: 'Optional pivot layout: which variables go in columns (heading) and which in rows (stub), e.g. {"stub": ["Region"], "heading": ["Tid"]} for regions as rows and years as columns. Applied by SCB for csv/xlsx/html/px; for json-stat2 a "pivot" table is added to unpaged responses (or used as the layout of response_format "wide", which pages the pivoted rows).',
+              properties: {
+                heading: { type: 'array', items: { type: 'string' }, description: 'Variables placed in the columns' },
+                stub: { type: 'array', items: { type: 'string' }, description: 'Variables placed in the rows' },
+              },
+            },
+            response_format: {
+              type: 'string',
+              enum: ['records', 'columnar', 'wide', 'markdown_table'],
+              description: 'Shape of json-stat2 results: "records" (one object per value), "columnar" (column names once, rows as arrays, code→label dictionaries; default above 200 values), "wide" (time in columns, other variables in rows) or "markdown_table" (readable table with labels)',
+            },
+            max_records: {
+              type: 'integer',
+              minimum: 1,
+              description: 'Maximum number of records (or rows for "wide") per call. Larger results are paged: the response has a "page" object with next_cursor',
+            },
+            max_tokens: {
+              type: 'integer',
+              minimum: 1,
+              description: 'Approximate token budget per call (default 20000). Larger results are paged the same way as with max_records',
+            },
+            cursor: {
+              type: 'string',
+              description: 'next_cursor from a previous page. Returns the next page from the data cache without a new SCB request, unless the result has been evicted or is larger than the cache (the page then carries a warning); pass the same tableId, other arguments are taken from the cursor',
+            },
             language: {
               type: 'string',
               description: 'Language code: "sv" (Swedish, recommended) or "en" (English)',
@@ -332,6 +632,7 @@ export class SCBMCPServer {
           },
           required: ['tableId'],
         },
+        outputSchema: TOOL_OUTPUT_SCHEMAS.scb_get_table_data,
         annotations: {
           title: 'Get Table Data',
           readOnlyHint: true,
@@ -340,11 +641,12 @@ export class SCBMCPServer {
       },
       {
         name: 'scb_check_usage',
-        description: 'Check current API usage and rate limit status',
+        description: 'Check current API usage, rate limit status and the number of requests waiting in the rate limit queue',
         inputSchema: {
           type: 'object',
           properties: {},
         },
+        outputSchema: TOOL_OUTPUT_SCHEMAS.scb_check_usage,
         annotations: {
           title: 'Check Usage',
           readOnlyHint: true,
@@ -369,6 +671,7 @@ export class SCBMCPServer {
           },
           required: ['query'],
         },
+        outputSchema: TOOL_OUTPUT_SCHEMAS.scb_search_regions,
         annotations: {
           title: 'Search Regions',
           readOnlyHint: true,
@@ -397,6 +700,7 @@ export class SCBMCPServer {
           },
           required: ['tableId'],
         },
+        outputSchema: TOOL_OUTPUT_SCHEMAS.scb_get_table_variables,
         annotations: {
           title: 'Get Table Variables',
           readOnlyHint: true,
@@ -425,6 +729,7 @@ export class SCBMCPServer {
           },
           required: ['query'],
         },
+        outputSchema: TOOL_OUTPUT_SCHEMAS.scb_find_region_code,
         annotations: {
           title: 'Find Region Code',
           readOnlyHint: true,
@@ -433,7 +738,7 @@ export class SCBMCPServer {
       },
       {
         name: 'scb_test_selection',
-        description: 'Test if a data selection is valid without retrieving data (prevents API errors). Always use this before scb_get_table_data.',
+        description: 'Test if a data selection is valid without retrieving data (prevents API errors). Expands expressions (*, 01*, ??80, TOP, BOTTOM, RANGE, FROM, TO) to the exact codes, reports the cell count against the API limit with an estimated response size in tokens, and shows the exact request that would be sent. Always use this before scb_get_table_data.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -443,12 +748,17 @@ export class SCBMCPServer {
             },
             selection: {
               type: 'object',
-              description: 'Variable selection to test (optional). Format: { "VariableName": ["value1", "value2"] }. Empty selection will validate that defaults can be used.',
+              description: 'Variable selection to test (optional). Format: { "VariableName": ["value1", "value2"] }. Empty selection returns SCB\'s default selection for the table.',
               additionalProperties: {
                 type: 'array',
                 items: { type: 'string' },
               },
             },
+            codelist: {
+              type: 'object',
+              description: 'Optional codelist per variable. Format: {"VariableName": "codelistId"}. Values are then validated against the codelist codes.',
+              additionalProperties: { type: 'string' },
+            },
             language: {
               type: 'string',
               description: 'Language code: "sv" (Swedish, recommended) or "en" (English)',
@@ -457,6 +767,7 @@ export class SCBMCPServer {
           },
           required: ['tableId'],
         },
+        outputSchema: TOOL_OUTPUT_SCHEMAS.scb_test_selection,
         annotations: {
           title: 'Test Selection',
           readOnlyHint: true,
@@ -475,12 +786,17 @@ export class SCBMCPServer {
             },
             selection: {
               type: 'object',
-              description: 'Optional variable selection (automatically limited to small sample). If omitted, uses smart defaults.',
+              description: 'Optional variable selection (automatically limited to small sample). If omitted, starts from SCB\'s default selection for the table.',
               additionalProperties: {
                 type: 'array',
                 items: { type: 'string' },
               },
             },
+            codelist: {
+              type: 'object',
+              description: 'Optional codelist per variable for alternative groupings. Format: {"VariableName": "codelistId"}, e.g. {"Region": "agg_RegionNUTS2_2008"}. Selection values then refer to the codelist codes. Use scb_get_table_codelists to find codelists.',
+              additionalProperties: { type: 'string' },
+            },
             language: {
               type: 'string',
               description: 'Language code: "sv" (Swedish, recommended) or "en" (English)',
@@ -489,66 +805,241 @@ export class SCBMCPServer {
           },
           required: ['tableId'],
         },
+        outputSchema: TOOL_OUTPUT_SCHEMAS.scb_preview_data,
         annotations: {
           title: 'Preview Data',
           readOnlyHint: true,
           openWorldHint: true,
         },
       },
+      {
+        name: 'scb_get_table_codelists',
+        description: 'List the codelists (alternative groupings such as counties instead of municipalities, or 5-year age bands) available for each variable in a table',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            tableId: {
+              type: 'string',
+              description: 'Table ID (e.g., "TAB638")',
+            },
+            variableName: {
+              type: 'string',
+              description: 'Optional: Show codelists for specific variable only (e.g., "Region", "Alder")',
+            },
+            language: {
+              type: 'string',
+              description: 'Language code: "sv" (Swedish, recommended) or "en" (English)',
+              default: 'sv',
+            },
+          },
+          required: ['tableId'],
+        },
+        outputSchema: TOOL_OUTPUT_SCHEMAS.scb_get_table_codelists,
+        annotations: {
+          title: 'Get Table Codelists',
+          readOnlyHint: true,
+          openWorldHint: true,
+        },
+      },
+      {
+        name: 'scb_get_codelist',
+        description: 'Get the values of a codelist and which original variable values each of them groups together',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            codelistId: {
+              type: 'string',
+              description: 'Codelist ID (e.g., "agg_RegionNUTS2_2008", "vs_RegionLän07")',
+            },
+            language: {
+              type: 'string',
+              description: 'Language code: "sv" (Swedish, recommended) or "en" (English)',
+              default: 'sv',
+            },
+          },
+          required: ['codelistId'],
+        },
+        outputSchema: TOOL_OUTPUT_SCHEMAS.scb_get_codelist,
+        annotations: {
+          title: 'Get Codelist',
+          readOnlyHint: true,
+          openWorldHint: true,
+        },
+      },
+      {
+        name: 'scb_save_query',
+        description: 'Validate a selection and save it as a PxAPI saved query. Returns a stable id that can be shared and run later with scb_run_saved_query.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            tableId: {
+              type: 'string',
+              description: 'Table ID (e.g., "TAB4552", "TAB4560")',
+            },
+            selection: {
+              type: 'object',
+              description: 'Variable selection to save. Format: {"VariableName": ["value1", "value2"]}. PxAPI expressions like "BOTTOM(5)", "FROM(2015)" or "*" are stored as-is, so the query follows new data. Relative time phrases ("latest", "last 5 years", "since 2015") are resolved to fixed period codes when saving; use BOTTOM(n) or FROM(code) for a query that keeps up with new periods.',
+              additionalProperties: {
+                type: 'array',
+                items: { type: 'string' },
+              },
+            },
+            codelist: {
+              type: 'object',
+              description: 'Optional codelist per variable. Format: {"VariableName": "codelistId"}',
+              additionalProperties: { type: 'string' },
+            },
+            format: {
+              type: 'string',
+              description: 'Optional default output format stored with the query (e.g., "csv", "xlsx", "json-stat2")',
+            },
+            language: {
+              type: 'string',
+              description: 'Language code: "sv" (Swedish, recommended) or "en" (English)',
+              default: 'sv',
+            },
+          },
+          required: ['tableId', 'selection'],
+        },
+        outputSchema: TOOL_OUTPUT_SCHEMAS.scb_save_query,
+        annotations: {
+          title: 'Save Query',
+          readOnlyHint: false,
+          openWorldHint: true,
+        },
+      },
+      {
+        name: 'scb_get_saved_query',
+        description: 'Read back a saved query: its table, selection and output format',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            savedQueryId: {
+              type: 'string',
+              description: 'Saved query ID returned by scb_save_query',
+            },
+          },
+          required: ['savedQueryId'],
+        },
+        outputSchema: TOOL_OUTPUT_SCHEMAS.scb_get_saved_query,
+        annotations: {
+          title: 'Get Saved Query',
+          readOnlyHint: true,
+          openWorldHint: true,
+        },
+      },
+      {
+        name: 'scb_run_saved_query',
+        description: 'Run a saved query and return its data, either as structured records (json-stat2) or in a native format such as csv or xlsx',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            savedQueryId: {
+              type: 'string',
+              description: 'Saved query ID returned by scb_save_query',
+            },
+            format: {
+              type: 'string',
+              description: 'Output format: "json-stat2" (default, structured records), "csv", "xlsx", "px", "parquet", "html" or "json-px"',
+              default: 'json-stat2',
+            },
+            outputFormatParams: {
+              type: 'array',
+              description: 'Optional format parameters for csv/html/xlsx, e.g. ["UseTexts", "SeparatorSemicolon"]',
+              items: { type: 'string' },
+            },
+            language: {
+              type: 'string',
+              description: 'Language code: "sv" (Swedish, recommended) or "en" (English)',
+              default: 'sv',
+            },
+          },
+          required: ['savedQueryId'],
+        },
+        outputSchema: TOOL_OUTPUT_SCHEMAS.scb_run_saved_query,
+        annotations: {
+          title: 'Run Saved Query',
+          readOnlyHint: true,
+          openWorldHint: true,
+        },
+      },
     ];
   }
 
-  public async callTool(name: string, args: any) {
+  public async callTool(name: string, args: unknown, signal?: AbortSignal) {
+    const { result, schemaWarnings } = await this.apiClient.runToolCall(signal, () => this.dispatchTool(name, args));
+    return attachSchemaWarnings(result, schemaWarnings);
+  }
+
+  private async dispatchTool(name: string, args: unknown) {
     try {
       switch (name) {
         case 'scb_get_api_status':
           return await this.handleGetApiStatus();
 
         case 'scb_search_tables':
-          return await this.handleSearchTables(args as any);
+          return await this.handleSearchTables(parseToolArgs('scb_search_tables', args));
 
         case 'scb_get_table_info':
-          return await this.handleGetTableInfo(args as any);
+          return await this.handleGetTableInfo(parseToolArgs('scb_get_table_info', args));
 
         case 'scb_get_table_data':
-          return await this.handleGetTableData(args as any);
+          return await this.handleGetTableData(parseToolArgs('scb_get_table_data', args));
 
         case 'scb_check_usage':
           return await this.handleCheckUsage();
 
         case 'scb_search_regions':
-          return await this.handleSearchRegions(args as any);
+          return await this.handleSearchRegions(parseToolArgs('scb_search_regions', args));
 
         case 'scb_get_table_variables':
-          return await this.handleGetTableVariables(args as any);
+          return await this.handleGetTableVariables(parseToolArgs('scb_get_table_variables', args));
 
         case 'scb_find_region_code':
-          return await this.handleFindRegionCode(args as any);
+          return await this.handleFindRegionCode(parseToolArgs('scb_find_region_code', args));
 
         case 'scb_test_selection':
-          return await this.handleTestSelection(args as any);
+          return await this.handleTestSelection(parseToolArgs('scb_test_selection', args));
 
         case 'scb_preview_data':
-          return await this.handlePreviewData(args as any);
+          return await this.handlePreviewData(parseToolArgs('scb_preview_data', args));
+
+        case 'scb_get_table_codelists':
+          return await this.handleGetTableCodelists(parseToolArgs('scb_get_table_codelists', args));
+
+        case 'scb_get_codelist':
+          return await this.handleGetCodelist(parseToolArgs('scb_get_codelist', args));
+
+        case 'scb_save_query':
+          return await this.handleSaveQuery(parseToolArgs('scb_save_query', args));
+
+        case 'scb_get_saved_query':
+          return await this.handleGetSavedQuery(parseToolArgs('scb_get_saved_query', args));
+
+        case 'scb_run_saved_query':
+          return await this.handleRunSavedQuery(parseToolArgs('scb_run_saved_query', args));
 
         default:
           throw new Error(`Unknown tool: ${name}`);
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-      };
+      if (error instanceof InvalidToolArgumentsError) {
+        return createErrorResponse({
+          type: 'invalid_arguments',
+          message: error.message,
+          details: { tool: name, issues: error.issues },
+          suggestions: ['Check the argument types against the tool\'s inputSchema']
+        });
+      }
+      return createApiErrorResponse(error, { type: 'tool_failed', details: { tool: name } });
     }
   }
 
   private async handleGetApiStatus() {
     const config = await this.apiClient.getConfig();
     const usage = this.apiClient.getUsageInfo();
+    const metadataCache = this.apiClient.getMetadataCacheStats();
+    const dataCache = this.apiClient.getDataCacheStats();
 
     // Return structured JSON response
     const responseData = {
@@ -573,6 +1064,27 @@ export class SCBMCPServer {
         window_started: usage.windowStart.toISOString(),
         reset_time: usage.rateLimitInfo?.resetTime?.toISOString() || null
       },
+      metadata_cache: {
+        hits: metadataCache.hits,
+        disk_hits: metadataCache.diskHits,
+        misses: metadataCache.misses,
+        hit_rate: metadataCache.hits + metadataCache.misses > 0
+          ? Math.round((metadataCache.hits / (metadataCache.hits + metadataCache.misses)) * 100) / 100
+          : null,
+        invalidations: metadataCache.invalidations,
+        entries: metadataCache.entries,
+        max_entries: metadataCache.maxEntries,
+        ttl_seconds: metadataCache.ttlSeconds,
+        disk_dir: metadataCache.diskDir
+      },
+      data_cache: {
+        hits: dataCache.hits,
+        misses: dataCache.misses,
+        invalidations: dataCache.invalidations,
+        entries: dataCache.entries,
+        size_mb: Math.round(dataCache.bytes / (1024 * 1024) * 10) / 10,
+        max_size_mb: Math.round(dataCache.maxBytes / (1024 * 1024) * 10) / 10
+      },
       citation: config.sourceReferences?.map(ref => ({
         language: ref.language,
         text: ref.text
@@ -584,17 +1096,10 @@ export class SCBMCPServer {
       ]
     };
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(responseData, null, 2)
-        },
-      ],
-    };
+    return createToolResult(responseData, `SCB PxWebAPI ${config.apiVersion}: ${responseData.current_usage.remaining} of ${responseData.current_usage.max_calls} calls left in the current window`);
   }
 
-  private async handleSearchTables(args: any) {
+  private async handleSearchTables(args: ToolArgs<'scb_search_tables'>) {
     // Validate language
     const langValidation = validateLanguage(args.language);
     const language = langValidation.language;
@@ -606,9 +1111,12 @@ export class SCBMCPServer {
     }
 
     const result = await this.apiClient.searchTables({
-      ...args,
-      language,
-      pageSize
+      query: args.query,
+      pastDays: args.pastDays,
+      includeDiscontinued: args.includeDiscontinued,
+      pageNumber: args.pageNumber,
+      pageSize,
+      lang: language
     });
 
     // Category keyword mappings (Swedish and English terms)
@@ -742,17 +1250,10 @@ ${result.page.totalElements > 50 ? `💡 **Search Tips:**
 - Use category filters: population, labour, economy, housing
 - Browse folders with \`scb_browse_folders\` for organized view` : ''}`;
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(structuredData, null, 2)
-        },
-      ],
-    };
+    return createToolResult(structuredData, summary);
   }
 
-  private async handleGetTableInfo(args: { tableId: string; language?: string }) {
+  private async handleGetTableInfo(args: ToolArgs<'scb_get_table_info'>) {
     const { tableId } = args;
     const langValidation = validateLanguage(args.language);
     const language = langValidation.language;
@@ -793,58 +1294,82 @@ ${result.page.totalElements > 50 ? `💡 **Search Tips:**
         })) || []
       };
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(structuredData, null, 2),
-          },
-        ],
-      };
+      return createToolResult(structuredData, `**${metadata.label}** (${tableId}): ${variables.length} variables, ${totalCells.toLocaleString()} cells${metadata.updated ? `, updated ${metadata.updated}` : ''}\n${variables.map(v => `- ${v.code} (${v.label}): ${v.value_count} values`).join('\n')}`);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-
-      // Parse SCB API error if present
-      let scbError = null;
-      const scbErrorMatch = errorMessage.match(/(\d{3})\s+\w+:\s*(\{.*\})/);
-      if (scbErrorMatch) {
-        try {
-          scbError = JSON.parse(scbErrorMatch[2]);
-        } catch {}
+      return createApiErrorResponse(error, {
+        type: 'table_info_failed',
+        details: { table_id: tableId, language_used: language, language_warning: langValidation.warning || null },
+        suggestions: [
+          'Verify the table ID is correct (e.g., "TAB4552", "TAB4560")',
+          'Use scb_search_tables to find valid table IDs',
+          'Check that the table has not been discontinued'
+        ]
+      });
+    }
+  }
+
+  private async handleGetTableData(args: ToolArgs<'scb_get_table_data'>) {
+    for (const [name, value] of [['max_records', args.max_records], ['max_tokens', args.max_tokens]] as const) {
+      if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+        return createErrorResponse({
+          type: 'invalid_page_limit',
+          message: `${name} must be a positive whole number, got ${JSON.stringify(value)}`,
+          suggestions: [`Leave out ${name} to use the default, or pass e.g. ${name === 'max_records' ? 500 : DEFAULT_MAX_TOKENS}`]
+        });
       }
+    }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              error: {
-                type: scbError?.type || 'table_info_failed',
-                message: scbError?.title || errorMessage,
-                http_status: scbError?.status || null,
-                table_id: tableId,
-                language_used: language,
-                language_warning: langValidation.warning || null
-              },
-              suggestions: [
-                'Verify the table ID is correct (e.g., "TAB4552", "TAB4560")',
-                'Use scb_search_tables to find valid table IDs',
-                'Check that the table has not been discontinued'
-              ]
-            }, null, 2),
-          },
-        ],
-      };
+    if (args.response_format !== undefined && !isResponseFormat(args.response_format)) {
+      return createErrorResponse({
+        type: 'invalid_response_format',
+        message: `Unknown response_format "${args.response_format}". Use one of: ${RESPONSE_FORMATS.join(', ')}`
+      });
     }
-  }
 
-  private async handleGetTableData(args: { tableId: string; selection?: Record<string, string[]>; language?: string }) {
-    const { tableId, selection } = args;
-    const langValidation = validateLanguage(args.language);
+    let cursor: DataCursor | undefined;
+    if (args.cursor) {
+      try {
+        cursor = decodeCursor(args.cursor);
+      } catch (error) {
+        return createErrorResponse({
+          type: 'invalid_cursor',
+          message: error instanceof Error ? error.message : String(error)
+        });
+      }
+      if (cursor.tableId.toUpperCase() !== args.tableId.toUpperCase()) {
+        return createErrorResponse({
+          type: 'invalid_cursor',
+          message: `Cursor belongs to table ${cursor.tableId}, not ${args.tableId}`
+        });
+      }
+    }
+
+    // A cursor repeats the request of the first page, whatever else is passed
+    const { tableId } = args;
+    const selection = cursor ? cursor.selection : args.selection;
+    const codelist = cursor ? cursor.codelist : args.codelist;
+    const layout = cursor ? cursor.layout : args.layout;
+    const format = cursor ? 'json-stat2' : args.format || 'json-stat2';
+    const langValidation = validateLanguage(cursor ? cursor.language : args.language);
     const language = langValidation.language;
 
     try {
-      const data = await this.apiClient.getTableData(tableId, selection, language);
+      if (format !== 'json-stat2') {
+        // Native formats are passed through untouched for spreadsheets and scripts
+        const formatted = await this.apiClient.getTableDataFormatted(tableId, selection, language, {
+          codelists: codelist,
+          placement: layout,
+          format,
+          outputFormatParams: args.outputFormatParams
+        });
+        return createFormattedDataContent(
+          formatted,
+          `scb://tables/${encodeURIComponent(tableId)}/data.${format}`,
+          `Table ${tableId} in ${format} format`
+        );
+      }
+
+      const { dataset: data, cache, resolvedValueLabels } = await this.apiClient.getTableDataWithCacheInfo(tableId, selection, language, { codelists: codelist, keepForPaging: true });
 
       // Transform to structured JSON data
       const structuredData = this.apiClient.transformToStructuredData(data, selection);
@@ -858,62 +1383,118 @@ ${result.page.totalElements > 50 ? `💡 **Search Tips:**
         }
       }
 
-      // Add language info and effective_selection
-      const responseData = {
-        ...structuredData,
-        query: {
-          ...structuredData.query,
-          selection: selection || {},
+      const responseFormat = cursor?.responseFormat || args.response_format || defaultResponseFormat(structuredData.data.length);
+
+      const limits: PageLimits = cursor
+        ? { maxRecords: cursor.maxRecords, maxTokens: cursor.maxTokens }
+        : { maxRecords: args.max_records, maxTokens: args.max_tokens ?? defaultMaxTokens() };
+      const offset = cursor?.offset ?? 0;
+
+      // Wide results are paged by pivot rows, the other formats by records
+      const wide = responseFormat === 'wide' ? pivotDataset(data, layout || wideLayout(data)) : null;
+      const items: any[] = wide ? wide.rows : structuredData.data;
+      if (offset > 0 && offset >= items.length) {
+        return createErrorResponse({
+          type: 'invalid_cursor',
+          message: `Cursor points past the end of the result (${items.length} ${wide ? 'rows' : 'records'}); the table has changed since the first page`,
+          suggestions: ['Call scb_get_table_data again without cursor to start over']
+        });
+      }
+
+      // The first page carries the summary statistics; later pages only the counts
+      const { by_measure: _byMeasure, ...pageSummary } = structuredData.summary;
+      const fetchedAt = cache.fetchedAt.toISOString();
+
+      // Add language info and effective_selection
+      const baseResponse = {
+        ...structuredData,
+        summary: cursor ? pageSummary : structuredData.summary,
+        response_format: responseFormat,
+        query: {
+          ...structuredData.query,
+          selection: selection || {},
+          codelists: codelist || {},
+          // Values given by label and the codes they were sent as
+          ...(resolvedValueLabels.length > 0 ? { value_mapping: resolvedValueLabels } : {}),
           effective_selection: effectiveSelection,
           language_used: language,
           language_warning: langValidation.warning || null
+        },
+        cache: {
+          status: cache.status,
+          fetched_at: cache.fetchedAt.toISOString(),
+          age_seconds: cache.ageSeconds
         }
       };
+      // Same row/column shape SCB would produce for tabular formats; only on unpaged results,
+      // since it holds every cell. Response format "wide" pages the pivoted rows instead.
+      const pivot = layout && !wide ? pivotDataset(data, layout) : null;
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(responseData, null, 2)
-          },
-        ],
+      const buildResponse = (pageItems: any[]) => {
+        const nextOffset = offset + pageItems.length < items.length ? offset + pageItems.length : null;
+        const paged = offset > 0 || nextOffset !== null;
+        return {
+          ...baseResponse,
+          data: wide ? { ...wide, rows: pageItems } : formatRecords(pageItems, structuredData.metadata.dimensions, responseFormat),
+          ...(pivot && !paged ? { pivot } : {}),
+          ...(paged ? {
+            page: {
+              offset,
+              returned: pageItems.length,
+              total: items.length,
+              unit: wide ? 'rows' : 'records',
+              has_more: nextOffset !== null,
+              next_cursor: nextOffset !== null
+                ? encodeCursor({ tableId, selection, codelist, layout, language, responseFormat, offset: nextOffset, ...limits, fetchedAt })
+                : null,
+              ...(pivot
+                ? { note: 'pivot is left out of paged results; use response_format "wide" with the same layout to page the pivoted rows' }
+                : {}),
+              ...(cursor && cursor.fetchedAt !== fetchedAt
+                ? { warning: 'The result was no longer in the data cache and was fetched from SCB again; if SCB updated the table in between, pages may not line up' }
+                : {})
+            }
+          } : {})
+        };
       };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-
-      // Parse SCB API error if present
-      let scbError = null;
-      const scbErrorMatch = errorMessage.match(/(\d{3})\s+\w+:\s*(\{.*\})/);
-      if (scbErrorMatch) {
-        try {
-          scbError = JSON.parse(scbErrorMatch[2]);
-        } catch {}
-      }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              error: {
-                type: scbError?.type || 'data_fetch_failed',
-                message: scbError?.title || errorMessage,
-                http_status: scbError?.status || null,
-                table_id: tableId,
-                selection: selection || null,
-                language_used: language,
-                language_warning: langValidation.warning || null
-              },
-              suggestions: [
-                'Use scb_test_selection to validate your selection first',
-                'Use scb_get_table_variables to see valid variable values',
-                'Try scb_preview_data for a safer initial exploration',
-                'Check that region/time codes are valid for this table'
-              ]
-            }, null, 2),
-          },
-        ],
+      // The markdown table is the text itself; other formats get the title and statistics
+      const summarize = (response: ReturnType<typeof buildResponse>) => {
+        const page = response.page;
+        return [
+          responseFormat === 'markdown_table'
+            ? `**${structuredData.metadata.table_name}** (${tableId}, ${structuredData.summary.total_records} rows, updated ${structuredData.metadata.updated || 'unknown'})\n\n${response.data}`
+            : structuredDataSummary(response),
+          ...(page?.next_cursor
+            ? [`_Rows ${page.offset + 1}–${page.offset + page.returned} of ${page.total}. For more, call scb_get_table_data again with cursor: "${page.next_cursor}"_`]
+            : [])
+        ].join('\n\n');
       };
+
+      const page = takePage(items, offset, limits, pageItems => {
+        const response = buildResponse(pageItems);
+        return estimateTokens(JSON.stringify(response).length + summarize(response).length);
+      });
+
+      const response = buildResponse(page.items);
+      return createToolResult(response, summarize(response));
+    } catch (error) {
+      return createApiErrorResponse(error, {
+        type: 'data_fetch_failed',
+        details: {
+          table_id: tableId,
+          selection: selection || null,
+          format,
+          language_used: language,
+          language_warning: langValidation.warning || null
+        },
+        suggestions: [
+          'Use scb_test_selection to validate your selection first',
+          'Use scb_get_table_variables to see valid variable values',
+          'Try scb_preview_data for a safer initial exploration',
+          'Check that region/time codes are valid for this table'
+        ]
+      });
     }
   }
 
@@ -941,9 +1522,15 @@ ${result.page.totalElements > 50 ? `💡 **Search Tips:**
         time_window_seconds: rateLimitInfo?.timeWindow || 10,
         usage_percent: usagePercent
       },
+      queue: {
+        depth: usage.queue.queueDepth,
+        tokens_available: usage.queue.tokensAvailable,
+        max_wait_seconds: Math.round(usage.queue.maxWaitMs / 1000),
+        paused_until: usage.queue.pausedUntil?.toISOString() || null
+      },
       status: status,
-      tips: usagePercent > 50 ? [
-        'Space out your requests to avoid rate limits',
+      tips: usagePercent > 50 || usage.queue.queueDepth > 0 ? [
+        'Requests over the limit are queued, so bursts get slower rather than failing',
         'Use specific selections to reduce API calls',
         'Use scb_preview_data before fetching full datasets'
       ] : [],
@@ -953,17 +1540,10 @@ ${result.page.totalElements > 50 ? `💡 **Search Tips:**
       }
     };
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(responseData, null, 2)
-        },
-      ],
-    };
+    return createToolResult(responseData, `Rate limit ${status}: ${usage.requestCount} of ${responseData.usage.max_calls} calls used (${usagePercent}%), ${usage.queue.queueDepth} queued`);
   }
 
-  private async handleSearchRegions(args: { query: string; language?: string }) {
+  private async handleSearchRegions(args: ToolArgs<'scb_search_regions'>) {
     const { query } = args;
     const langValidation = validateLanguage(args.language);
     const language = langValidation.language;
@@ -977,70 +1557,59 @@ ${result.page.totalElements > 50 ? `💡 **Search Tips:**
         const sampleCounties = ALL_REGIONS.filter(r => r.type === 'county').slice(0, 5);
         const sampleMunicipalities = ALL_REGIONS.filter(r => r.type === 'municipality').slice(0, 5);
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                query: query,
-                matches: [],
-                message: `No regions found matching "${query}"`,
-                language_used: language,
-                language_warning: langValidation.warning || null,
-                database_info: {
-                  total_regions: REGION_STATS.total,
-                  counties: REGION_STATS.counties,
-                  municipalities: REGION_STATS.municipalities
-                },
-                sample_counties: sampleCounties.map(r => ({ code: r.code, name: r.name })),
-                sample_municipalities: sampleMunicipalities.map(r => ({ code: r.code, name: r.name })),
-                tips: [
-                  'Fuzzy matching is enabled: "Goteborg" will match "Göteborg"',
-                  'Try partial names: "kung" will match "Kungälv"',
-                  'Use region code directly: "1482" for Kungälv',
-                  'Region codes: 2 digits = county (län), 4 digits = municipality (kommun)'
-                ]
-              }, null, 2)
-            },
-          ],
+        const responseData = {
+          query: query,
+          matches: [],
+          message: `No regions found matching "${query}"`,
+          language_used: language,
+          language_warning: langValidation.warning || null,
+          database_info: {
+            total_regions: REGION_STATS.total,
+            counties: REGION_STATS.counties,
+            municipalities: REGION_STATS.municipalities
+          },
+          sample_counties: sampleCounties.map(r => ({ code: r.code, name: r.name })),
+          sample_municipalities: sampleMunicipalities.map(r => ({ code: r.code, name: r.name })),
+          tips: [
+            'Fuzzy matching is enabled: "Goteborg" will match "Göteborg"',
+            'Try partial names: "kung" will match "Kungälv"',
+            'Use region code directly: "1482" for Kungälv',
+            'Region codes: 2 digits = county (län), 4 digits = municipality (kommun)'
+          ]
         };
+
+        return createToolResult(responseData, `No regions found matching "${query}"`);
       }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              query: query,
-              total_matches: matches.length,
-              language_used: language,
-              language_warning: langValidation.warning || null,
-              source: 'local_database',
-              database_info: {
-                total_regions: REGION_STATS.total,
-                counties: REGION_STATS.counties,
-                municipalities: REGION_STATS.municipalities
-              },
-              regions: matches.slice(0, 20).map(r => ({
-                code: r.code,
-                name: r.name,
-                type: r.type,
-                county: r.countyCode ? ALL_REGIONS.find(c => c.code === r.countyCode)?.name : null,
-                usage_example: { Region: [r.code] }
-              })),
-              tips: [
-                'Use the "code" value in your data selections',
-                'Format: {"Region": ["' + matches[0].code + '"]}',
-                'You can select multiple regions: {"Region": ["code1", "code2"]}'
-              ]
-            }, null, 2)
-          },
-        ],
+      const responseData = {
+        query: query,
+        total_matches: matches.length,
+        language_used: language,
+        language_warning: langValidation.warning || null,
+        source: 'local_database',
+        database_info: {
+          total_regions: REGION_STATS.total,
+          counties: REGION_STATS.counties,
+          municipalities: REGION_STATS.municipalities
+        },
+        regions: matches.slice(0, 20).map(r => ({
+          code: r.code,
+          name: r.name,
+          type: r.type,
+          county: r.countyCode ? ALL_REGIONS.find(c => c.code === r.countyCode)?.name : null,
+          usage_example: { Region: [r.code] }
+        })),
+        tips: [
+          'Use the "code" value in your data selections',
+          'Format: {"Region": ["' + matches[0].code + '"]}',
+          'You can select multiple regions: {"Region": ["code1", "code2"]}'
+        ]
       };
+
+      return createToolResult(responseData, `${matches.length} region(s) match "${query}": ${matches.slice(0, 5).map(r => `${r.name} (${r.code})`).join(', ')}`);
     } catch (error) {
-      return createErrorResponse({
+      return createApiErrorResponse(error, {
         type: 'region_search_failed',
-        message: error instanceof Error ? error.message : String(error),
         details: { query, language },
         suggestions: [
           'Try Swedish names (e.g., "Göteborg")',
@@ -1050,7 +1619,7 @@ ${result.page.totalElements > 50 ? `💡 **Search Tips:**
     }
   }
 
-  private async handleGetTableVariables(args: { tableId: string; language?: string; variableName?: string }) {
+  private async handleGetTableVariables(args: ToolArgs<'scb_get_table_variables'>) {
     const { tableId, variableName } = args;
     const langValidation = validateLanguage(args.language);
     const language = langValidation.language;
@@ -1060,18 +1629,13 @@ ${result.page.totalElements > 50 ? `💡 **Search Tips:**
       const metadata = await this.apiClient.getTableMetadata(tableId, language);
       
       if (!metadata.dimension) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                table_id: tableId,
-                error: "No variable information available for this table",
-                suggestion: "Try using scb_get_table_info for general table information"
-              }, null, 2)
-            },
-          ],
+        const responseData = {
+          table_id: tableId,
+          error: "No variable information available for this table",
+          suggestion: "Try using scb_get_table_info for general table information"
         };
+
+        return createToolResult(responseData, `No variable information available for table ${tableId}`);
       }
 
       const variables = Object.entries(metadata.dimension);
@@ -1086,18 +1650,13 @@ ${result.page.totalElements > 50 ? `💡 **Search Tips:**
 
       if (filteredVariables.length === 0) {
         const availableVars = variables.map(([code, def]) => ({ code, label: def.label }));
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                table_id: tableId,
-                error: `Variable "${variableName}" not found`,
-                available_variables: availableVars
-              }, null, 2)
-            },
-          ],
+        const responseData = {
+          table_id: tableId,
+          error: `Variable "${variableName}" not found`,
+          available_variables: availableVars
         };
+
+        return createToolResult(responseData, `Variable "${variableName}" not found in table ${tableId}. Available: ${responseData.available_variables.map(v => v.code).join(', ')}`);
       }
 
       // Transform variables into structured JSON
@@ -1159,43 +1718,22 @@ ${variableData.map(v =>
 
 💡 **Total Variables:** ${variables.length} available`;
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(responseData, null, 2)
-          },
-        ],
-      };
+      return createToolResult(responseData, summary);
       
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              error: {
-                type: "table_variables_failed",
-                message: errorMessage,
-                table_id: tableId,
-                language_used: language,
-                language_warning: langValidation.warning || null
-              },
-              suggestions: [
-                'Verify the table ID is correct (e.g., "TAB4552", "TAB4560")',
-                'Use scb_search_tables to find valid table IDs',
-                'Check that the table has not been discontinued'
-              ]
-            }, null, 2)
-          },
-        ],
-      };
+      return createApiErrorResponse(error, {
+        type: 'table_variables_failed',
+        details: { table_id: tableId, language_used: language, language_warning: langValidation.warning || null },
+        suggestions: [
+          'Verify the table ID is correct (e.g., "TAB4552", "TAB4560")',
+          'Use scb_search_tables to find valid table IDs',
+          'Check that the table has not been discontinued'
+        ]
+      });
     }
   }
 
-  private async handleFindRegionCode(args: { query: string; tableId?: string; language?: string }) {
+  private async handleFindRegionCode(args: ToolArgs<'scb_find_region_code'>) {
     const { query, tableId } = args;
     const langValidation = validateLanguage(args.language);
     const language = langValidation.language;
@@ -1213,39 +1751,35 @@ ${variableData.map(v =>
         match_type: 'exact'
       }));
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              query: query,
-              matches: results,
-              match_type: 'exact_matches',
-              total_matches: localMatches.length,
-              primary_match: results[0],
-              usage_example: { Region: [results[0].code] },
-              language_used: language,
-              language_warning: langValidation.warning || null,
-              source: 'local_database',
-              database_info: {
-                total_regions: REGION_STATS.total,
-                counties: REGION_STATS.counties,
-                municipalities: REGION_STATS.municipalities
-              },
-              note: 'Matched from complete Swedish region database. Use tableId parameter to verify table-specific region codes.'
-            }, null, 2)
-          }
-        ]
+      const responseData = {
+        query: query,
+        matches: results,
+        match_type: 'exact_matches',
+        total_matches: localMatches.length,
+        primary_match: results[0],
+        usage_example: { Region: [results[0].code] },
+        language_used: language,
+        language_warning: langValidation.warning || null,
+        source: 'local_database',
+        database_info: {
+          total_regions: REGION_STATS.total,
+          counties: REGION_STATS.counties,
+          municipalities: REGION_STATS.municipalities
+        },
+        note: 'Matched from complete Swedish region database. Use tableId parameter to verify table-specific region codes.'
       };
+
+      return createToolResult(responseData, regionMatchSummary(responseData));
     }
 
     // SECOND: If not found locally or tableId specified, search via API for table-specific codes
     if (tableId) {
       try {
         const metadata = await this.apiClient.getTableMetadata(tableId, language);
+        const regionDim = findDimension(metadata, 'geo');
 
-        if (!metadata.dimension || !metadata.dimension['Region']) {
-          // No Region dimension - fall back to local database
+        if (!regionDim) {
+          // No geographic dimension - fall back to local database
           if (localMatches.length > 0) {
             const results = localMatches.slice(0, 10).map(r => ({
               code: r.code,
@@ -1254,43 +1788,33 @@ ${variableData.map(v =>
               match_type: 'local_fallback'
             }));
 
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: JSON.stringify({
-                    query: query,
-                    matches: results,
-                    match_type: 'local_fallback',
-                    primary_match: results[0],
-                    usage_example: { Region: [results[0].code] },
-                    language_used: language,
-                    language_warning: langValidation.warning || null,
-                    source: 'local_database',
-                    note: `Table ${tableId} does not have a Region dimension. Using local database match.`
-                  }, null, 2)
-                }
-              ]
+            const responseData = {
+              query: query,
+              matches: results,
+              match_type: 'local_fallback',
+              primary_match: results[0],
+              usage_example: { Region: [results[0].code] },
+              language_used: language,
+              language_warning: langValidation.warning || null,
+              source: 'local_database',
+              note: `Table ${tableId} does not have a geographic dimension. Using local database match.`
             };
+
+            return createToolResult(responseData, regionMatchSummary(responseData));
           }
 
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify({
-                  query: query,
-                  error: `Table ${tableId} does not have a Region dimension`,
-                  language_used: language,
-                  language_warning: langValidation.warning || null,
-                  suggestion: `Use scb_get_table_variables with tableId="${tableId}" to see available dimensions`
-                }, null, 2)
-              },
-            ],
+          const responseData = {
+            query: query,
+            error: `Table ${tableId} does not have a geographic dimension`,
+            language_used: language,
+            language_warning: langValidation.warning || null,
+            suggestion: `Use scb_get_table_variables with tableId="${tableId}" to see available dimensions`
           };
+
+          return createToolResult(responseData, regionMatchSummary(responseData));
         }
 
-        const regionDimension = metadata.dimension['Region'];
+        const regionDimension = metadata.dimension[regionDim];
         const regionLabels = regionDimension.category.label || {};
 
         // Search for the query in table's region labels
@@ -1310,28 +1834,23 @@ ${variableData.map(v =>
             match_type: 'table_specific'
           }));
 
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify({
-                  query: query,
-                  matches: results,
-                  match_type: 'table_specific_matches',
-                  total_matches: tableMatches.length,
-                  primary_match: results[0],
-                  usage_example: { Region: [results[0].code] },
-                  language_used: language,
-                  language_warning: langValidation.warning || null,
-                  source_table: {
-                    id: tableId,
-                    name: metadata.label
-                  },
-                  note: 'Matched from table-specific region codes. These codes are verified to work with this table.'
-                }, null, 2)
-              },
-            ],
+          const responseData = {
+            query: query,
+            matches: results,
+            match_type: 'table_specific_matches',
+            total_matches: tableMatches.length,
+            primary_match: results[0],
+            usage_example: { [regionDim]: [results[0].code] },
+            language_used: language,
+            language_warning: langValidation.warning || null,
+            source_table: {
+              id: tableId,
+              name: metadata.label
+            },
+            note: 'Matched from table-specific region codes. These codes are verified to work with this table.'
           };
+
+          return createToolResult(responseData, regionMatchSummary(responseData));
         }
 
         // No match in table - suggest using local database
@@ -1343,28 +1862,23 @@ ${variableData.map(v =>
             match_type: 'local_suggestion'
           }));
 
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify({
-                  query: query,
-                  matches: results,
-                  match_type: 'local_suggestions',
-                  primary_match: results[0],
-                  usage_example: { Region: [results[0].code] },
-                  language_used: language,
-                  language_warning: langValidation.warning || null,
-                  source: 'local_database',
-                  warning: `Region "${query}" not found in table ${tableId}. Showing matches from local database - verify compatibility with your table.`,
-                  source_table: {
-                    id: tableId,
-                    name: metadata.label
-                  }
-                }, null, 2)
-              },
-            ],
+          const responseData = {
+            query: query,
+            matches: results,
+            match_type: 'local_suggestions',
+            primary_match: results[0],
+            usage_example: { [regionDim]: [results[0].code] },
+            language_used: language,
+            language_warning: langValidation.warning || null,
+            source: 'local_database',
+            warning: `Region "${query}" not found in table ${tableId}. Showing matches from local database - verify compatibility with your table.`,
+            source_table: {
+              id: tableId,
+              name: metadata.label
+            }
           };
+
+          return createToolResult(responseData, regionMatchSummary(responseData));
         }
 
       } catch (error) {
@@ -1377,24 +1891,19 @@ ${variableData.map(v =>
             match_type: 'fallback'
           }));
 
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify({
-                  query: query,
-                  matches: results,
-                  match_type: 'fallback_matches',
-                  primary_match: results[0],
-                  usage_example: { Region: [results[0].code] },
-                  language_used: language,
-                  language_warning: langValidation.warning || null,
-                  source: 'local_database',
-                  note: 'API search failed. Matched from local Swedish region database.'
-                }, null, 2)
-              }
-            ]
+          const responseData = {
+            query: query,
+            matches: results,
+            match_type: 'fallback_matches',
+            primary_match: results[0],
+            usage_example: { Region: [results[0].code] },
+            language_used: language,
+            language_warning: langValidation.warning || null,
+            source: 'local_database',
+            note: 'API search failed. Matched from local Swedish region database.'
           };
+
+          return createToolResult(responseData, regionMatchSummary(responseData));
         }
       }
     }
@@ -1402,36 +1911,72 @@ ${variableData.map(v =>
     // No matches found anywhere
     const sampleMunicipalities = ALL_REGIONS.filter(r => r.type === 'municipality').slice(0, 5);
 
+    const responseData = {
+      query: query,
+      matches: [],
+      error: `No regions found matching "${query}"`,
+      language_used: language,
+      language_warning: langValidation.warning || null,
+      database_info: {
+        total_regions: REGION_STATS.total,
+        counties: REGION_STATS.counties,
+        municipalities: REGION_STATS.municipalities
+      },
+      sample_regions: sampleMunicipalities.map(r => ({ code: r.code, name: r.name })),
+      tips: [
+        'Try Swedish spelling (e.g., "Göteborg" instead of "Gothenburg")',
+        'Fuzzy matching works: "Goteborg" will match "Göteborg"',
+        'Try partial names: "kung" matches "Kungälv"',
+        'Use scb_search_regions for broader searches'
+      ]
+    };
+
+    return createToolResult(responseData, regionMatchSummary(responseData));
+  }
+
+  /**
+   * Cell count against the API limit, plus the size of the data scb_get_table_data would return
+   * in its default response format for that many records
+   */
+  private async estimateSelectionSize(tableId: string, language: string, expandedSelection: Record<string, string[]>) {
+    const metadata = await this.apiClient.getTableMetadata(tableId, language);
+    const maxDataCells = await this.apiClient.getMaxDataCells();
+
+    const responseFormat = defaultResponseFormat(countCells(expandedSelection));
+    const fieldNames = this.apiClient.getDimensionBaseNames(metadata);
+    const estimate = estimateRecordsSize(Object.entries(expandedSelection).map(([dimName, codes]) => {
+      const kind = classifyDimension(metadata, dimName);
+      return {
+        fieldName: fieldNames[dimName] || dimName.toLowerCase(),
+        codes,
+        labels: metadata.dimension[dimName]?.category.label || {},
+        time: kind === 'time'
+      };
+    }), responseFormat);
+    const requestsNeeded = estimate.records > maxDataCells ? splitSelection(expandedSelection, maxDataCells).length : 1;
+
+    const notes: string[] = [];
+    if (requestsNeeded > 1) {
+      notes.push(`Exceeds the ${maxDataCells.toLocaleString()} cell limit; scb_get_table_data will split it into ${requestsNeeded} requests`);
+    }
+    if (estimate.tokens > 25000) {
+      notes.push('Large response: narrow the selection or use scb_preview_data first');
+    }
+
     return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            query: query,
-            matches: [],
-            error: `No regions found matching "${query}"`,
-            language_used: language,
-            language_warning: langValidation.warning || null,
-            database_info: {
-              total_regions: REGION_STATS.total,
-              counties: REGION_STATS.counties,
-              municipalities: REGION_STATS.municipalities
-            },
-            sample_regions: sampleMunicipalities.map(r => ({ code: r.code, name: r.name })),
-            tips: [
-              'Try Swedish spelling (e.g., "Göteborg" instead of "Gothenburg")',
-              'Fuzzy matching works: "Goteborg" will match "Göteborg"',
-              'Try partial names: "kung" matches "Kungälv"',
-              'Use scb_search_regions for broader searches'
-            ]
-          }, null, 2)
-        },
-      ],
+      cell_count: estimate.records,
+      max_data_cells: maxDataCells,
+      within_limit: estimate.records <= maxDataCells,
+      requests_needed: requestsNeeded,
+      response_format: responseFormat,
+      estimated_response_bytes: estimate.bytes,
+      estimated_tokens: estimate.tokens,
+      notes
     };
   }
 
-  private async handleTestSelection(args: { tableId: string; selection?: Record<string, string[]>; language?: string }) {
-    const { tableId, selection } = args;
+  private async handleTestSelection(args: ToolArgs<'scb_test_selection'>) {
+    const { tableId, selection, codelist } = args;
     const langValidation = validateLanguage(args.language);
     const language = langValidation.language;
 
@@ -1442,38 +1987,36 @@ ${variableData.map(v =>
       // Return success with info about default behavior
       try {
         const metadata = await this.apiClient.getTableMetadata(tableId, language);
+        const defaults = await this.apiClient.getDefaultSelection(tableId, language);
         const variables = Object.entries(metadata.dimension || {}).map(([code, def]) => ({
           code,
           label: def.label,
           value_count: Object.keys(def.category.index).length
         }));
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                table_id: tableId,
-                is_valid: true,
-                selection_provided: false,
-                language_used: language,
-                language_warning: langValidation.warning || null,
-                message: 'Empty selection is valid - API will use smart defaults (latest time period, all categories)',
-                effective_selection: 'Will be determined by API at request time',
-                available_variables: variables,
-                next_step: 'Use scb_get_table_data or scb_preview_data - they will apply default selection automatically',
-                tips: [
-                  'For specific data, provide a selection like: {"Tid": ["2024"], "Region": ["0180"]}',
-                  'Use scb_get_table_variables to see all available values'
-                ]
-              }, null, 2)
-            }
+        const responseData = {
+          table_id: tableId,
+          is_valid: true,
+          selection_provided: false,
+          language_used: language,
+          language_warning: langValidation.warning || null,
+          message: 'Empty selection is valid - SCB will apply the table\'s default selection shown in effective_selection',
+          effective_selection: defaults.selection,
+          codelists: defaults.codelists,
+          suggested_placement: defaults.placement,
+          available_variables: variables,
+          next_step: 'Use scb_get_table_data or scb_preview_data - they will apply default selection automatically',
+          tips: [
+            'For specific data, provide a selection like: {"Tid": ["2024"], "Region": ["0180"]}',
+            'Use scb_get_table_variables to see all available values'
           ]
         };
+
+        return createToolResult(responseData, `Empty selection is valid for ${tableId}: SCB applies the table's default selection (see effective_selection)`);
       } catch (error) {
-        return createErrorResponse({
+        return createApiErrorResponse(error, {
           type: 'table_not_found',
-          message: `Could not validate table "${tableId}": ${error instanceof Error ? error.message : String(error)}`,
+          details: { table_id: tableId },
           suggestions: [
             'Verify the table ID is correct (e.g., "TAB4552")',
             'Use scb_search_tables to find valid table IDs'
@@ -1484,7 +2027,8 @@ ${variableData.map(v =>
 
     try {
       // Use the existing validation logic
-      const validation = await this.apiClient.validateSelection(tableId, selection, language);
+      const validation = await this.apiClient.validateSelection(tableId, selection, language, codelist);
+      const size = validation.isValid ? await this.estimateSelectionSize(tableId, language, validation.expandedSelection || {}) : null;
 
       // Return structured JSON response
       const responseData = {
@@ -1493,7 +2037,21 @@ ${variableData.map(v =>
         language_used: language,
         language_warning: langValidation.warning || null,
         selection: selection,
+        codelists: codelist || {},
         translated_selection: validation.translatedSelection || null,
+        variable_mapping: validation.resolvedVariables || [],
+        value_mapping: validation.resolvedValueLabels || [],
+        // Optional variables left out; SCB uses the elimination value or sums over them
+        eliminated_variables: validation.eliminatedVariables || [],
+        resolved_time_expressions: validation.resolvedTimeExpressions || [],
+        // Exact codes per variable after expanding expressions, and the cells they span
+        resolved_selection: validation.expandedSelection || null,
+        cell_count: validation.cellCount ?? null,
+        size_estimate: size,
+        // Exactly what scb_get_table_data sends (split into size_estimate.requests_needed chunks if large)
+        request: validation.isValid
+          ? this.apiClient.describeDataRequest(tableId, selection, validation, language, { codelists: codelist })
+          : null,
         errors: validation.errors || [],
         suggestions: validation.suggestions || [],
         next_step: validation.isValid
@@ -1523,49 +2081,32 @@ ${Object.entries(selection).map(([key, values]) => `- ${key}: [${values.join(',
         responseText += `\n\n**🔄 Translated selection:**\n${Object.entries(validation.translatedSelection).map(([key, values]) => `- ${key}: [${values.join(', ')}]`).join('\n')}`;
       }
 
+      if (size) {
+        responseText += `\n\n**📏 Size:** ${size.cell_count.toLocaleString()} cells, about ${size.estimated_tokens.toLocaleString()} tokens as ${size.response_format}${size.requests_needed > 1 ? `, ${size.requests_needed} requests` : ''}`;
+      }
+
       if (validation.isValid) {
         responseText += `\n\n**✅ This selection should work with \`scb_get_table_data\` or \`scb_preview_data\`!**`;
       } else {
         responseText += `\n\n**🔧 Fix the errors above before requesting data.**`;
       }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(responseData, null, 2),
-          },
-        ],
-      };
+      return createToolResult(responseData, responseText);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              error: {
-                type: 'selection_validation_failed',
-                message: errorMessage,
-                table_id: tableId,
-                language_used: language,
-                language_warning: langValidation.warning || null
-              },
-              suggestions: [
-                'Verify the table ID is correct',
-                'Use scb_get_table_variables to check available variables',
-                'Try scb_search_tables to find valid table IDs'
-              ]
-            }, null, 2),
-          },
-        ],
-      };
+      return createApiErrorResponse(error, {
+        type: 'selection_validation_failed',
+        details: { table_id: tableId, language_used: language, language_warning: langValidation.warning || null },
+        suggestions: [
+          'Verify the table ID is correct',
+          'Use scb_get_table_variables to check available variables',
+          'Try scb_search_tables to find valid table IDs'
+        ]
+      });
     }
   }
 
-  private async handlePreviewData(args: { tableId: string; selection?: Record<string, string[]>; language?: string }) {
-    const { tableId, selection } = args;
+  private async handlePreviewData(args: ToolArgs<'scb_preview_data'>) {
+    const { tableId, selection, codelist } = args;
     const langValidation = validateLanguage(args.language);
     const language = langValidation.language;
 
@@ -1579,63 +2120,63 @@ ${Object.entries(selection).map(([key, values]) => `- ${key}: [${values.join(',
         return acc * Object.keys(dim.category.index).length;
       }, 1);
 
-      // Create a smart limited selection for preview
+      // SCB's own default selection - the same subset its web UI shows
+      let defaults: DefaultSelection = { selection: {}, codelists: {}, placement: { heading: [], stub: [] } };
+      try {
+        defaults = await this.apiClient.getDefaultSelection(tableId, language);
+      } catch {
+        // Fall back to the first values of each dimension below
+      }
+
+      // Create a limited selection for preview
       let previewSelection: Record<string, string[]> = {};
+      // Map keys like "län" or "year" to dimension codes so the gaps below are filled correctly
+      let previewCodelists: Record<string, string> = codelist
+        ? await this.apiClient.resolveVariableKeysFor(tableId, codelist, language)
+        : {};
+
+      // Codes per dimension to expand expressions against; codelist codes are not among them
+      const dimensionCodes = () => Object.fromEntries(
+        dimensions
+          .filter(([varCode]) => !previewCodelists[varCode])
+          .map(([varCode]) => [varCode, categoryCodes(metadata, varCode)])
+      );
 
       if (selection) {
         // User provided selection - limit each variable
-        for (const [key, values] of Object.entries(selection)) {
-          if (values.some(v => v === '*' || v.startsWith('TOP(') || v.startsWith('BOTTOM('))) {
-            // Replace * with TOP(2) for preview, limit TOP/BOTTOM to max 3
-            previewSelection[key] = values.map(v => {
-              if (v === '*') return 'TOP(2)';
-              const topMatch = v.match(/^TOP\((\d+)\)$/);
-              if (topMatch && parseInt(topMatch[1]) > 3) return 'TOP(3)';
-              const bottomMatch = v.match(/^BOTTOM\((\d+)\)$/);
-              if (bottomMatch && parseInt(bottomMatch[1]) > 3) return 'BOTTOM(3)';
-              return v;
-            });
-          } else {
-            // Limit to first 2 values
-            previewSelection[key] = values.slice(0, 2);
-          }
-        }
+        previewSelection = limitSelectionForPreview(await this.apiClient.resolveVariableKeysFor(tableId, selection, language), dimensionCodes());
       } else {
-        // No selection provided - create smart defaults for ALL dimensions
-        // This is the key fix: we must provide values for all dimensions
-        for (const [varCode, varDef] of dimensions) {
-          const valueCount = Object.keys(varDef.category.index).length;
-          const values = Object.keys(varDef.category.index);
+        // No selection provided - start from the default selection
+        for (const [varCode, values] of Object.entries(defaults.selection)) {
+          if (values.length > 0) previewSelection[varCode] = values;
+        }
+        previewCodelists = { ...defaults.codelists, ...previewCodelists };
 
-          // For time variables, get the latest
-          if (varCode.toLowerCase() === 'tid' || varCode.toLowerCase() === 'time') {
-            previewSelection[varCode] = ['TOP(1)'];
-          }
-          // For content variables, take first one
-          else if (varCode.toLowerCase() === 'contentscode') {
-            previewSelection[varCode] = [values[0]];
-          }
-          // For other variables with few values, take all
-          else if (valueCount <= 3) {
-            previewSelection[varCode] = values;
-          }
-          // For variables with many values, take first 2
-          else {
-            previewSelection[varCode] = values.slice(0, 2);
-          }
+        if (countSelectedCells(previewSelection, dimensionCodes()) > PREVIEW_MAX_CELLS) {
+          previewSelection = limitSelectionForPreview(previewSelection, dimensionCodes());
         }
       }
 
-      // Ensure all mandatory dimensions are covered
+      // Ensure all mandatory dimensions are covered; eliminable ones can stay out
       for (const [varCode, varDef] of dimensions) {
-        if (!previewSelection[varCode]) {
+        if (previewSelection[varCode] || varDef.extension?.elimination) continue;
+
+        const defaultValues = defaults.selection[varCode] || [];
+        if (previewCodelists[varCode]) {
+          // Raw dimension codes don't apply once a codelist is used
+          previewSelection[varCode] = ['TOP(2)'];
+        } else if (defaultValues.length > 0 && !defaults.codelists[varCode]) {
+          previewSelection[varCode] = limitSelectionForPreview({ [varCode]: defaultValues }, dimensionCodes())[varCode];
+        } else {
           const values = Object.keys(varDef.category.index);
-          previewSelection[varCode] = values.length <= 3 ? values : values.slice(0, 2);
+          // The latest periods are more telling than the oldest ones
+          const sample = classifyDimension(metadata, varCode) === 'time' ? values.slice(-2) : values.slice(0, 2);
+          previewSelection[varCode] = values.length <= 3 ? values : sample;
         }
       }
 
       // Get a small sample of data
-      const data = await this.apiClient.getTableData(tableId, previewSelection, language);
+      const data = await this.apiClient.getTableData(tableId, previewSelection, language, { codelists: previewCodelists });
 
       // Transform to structured JSON data with preview flag
       const structuredData = this.apiClient.transformToStructuredData(data, previewSelection);
@@ -1663,6 +2204,9 @@ ${Object.entries(selection).map(([key, values]) => `- ${key}: [${values.join(',
           is_preview: true,
           original_selection: selection,
           preview_selection: previewSelection,
+          codelists: previewCodelists,
+          based_on_default_selection: !selection && Object.keys(defaults.selection).length > 0,
+          suggested_placement: defaults.placement,
           note: "This is a limited preview. Use scb_get_table_data for full dataset."
         }
       };
@@ -1691,42 +2235,23 @@ ${structuredData.data.slice(0, 5).map(record => {
 
 ✅ **Preview looks good!** Use \`scb_get_table_data\` for the complete dataset.`;
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(previewData, null, 2)
-          },
-        ],
-      };
+      return createToolResult(previewData, summary);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-
-      // Determine error type for better suggestions
-      const is500Error = errorMessage.includes('500');
-      const isValidationError = errorMessage.includes('validation') || errorMessage.includes('Missing mandatory');
-      const isNotFoundError = errorMessage.includes('404') || errorMessage.includes('not found');
-
-      let errorType = 'preview_failed';
-      let suggestions: string[] = [];
-
-      if (is500Error) {
-        errorType = 'table_too_complex';
+      // Suggestions depend on what kind of failure it was
+      let suggestions: string[];
+      if (error instanceof UpstreamUnavailableError) {
         suggestions = [
           'This table may be too large for preview without selection',
           'Try providing a specific selection: scb_preview_data(tableId, selection: {"Region": ["0180"], "Tid": ["TOP(1)"]})',
-          'Use scb_get_table_variables to see available variables first',
           'Some tables with many dimensions require explicit selection'
         ];
-      } else if (isValidationError) {
-        errorType = 'invalid_selection';
+      } else if (error instanceof BadSelectionError) {
         suggestions = [
           'Use scb_test_selection to validate your selection first',
           'Check variable names with scb_get_table_variables',
           'Make sure all mandatory variables are included'
         ];
-      } else if (isNotFoundError) {
-        errorType = 'table_not_found';
+      } else if (error instanceof NotFoundError) {
         suggestions = [
           'Verify the table ID is correct (e.g., "TAB638", "TAB4552")',
           'Use scb_search_tables to find valid table IDs'
@@ -1739,23 +2264,233 @@ ${structuredData.data.slice(0, 5).map(record => {
         ];
       }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              error: {
-                type: errorType,
-                message: errorMessage,
-                table_id: tableId,
-                language_used: language,
-                language_warning: langValidation.warning || null
-              },
-              suggestions
-            }, null, 2)
+      return createApiErrorResponse(error, {
+        type: 'preview_failed',
+        details: { table_id: tableId, language_used: language, language_warning: langValidation.warning || null },
+        suggestions
+      });
+    }
+  }
+
+  private async handleGetTableCodelists(args: ToolArgs<'scb_get_table_codelists'>) {
+    const { tableId, variableName } = args;
+    const langValidation = validateLanguage(args.language);
+    const language = langValidation.language;
+
+    try {
+      const variables = await this.apiClient.getTableCodelists(tableId, language);
+
+      const filteredVariables = variableName
+        ? variables.filter(v =>
+            v.variableCode.toLowerCase() === variableName.toLowerCase() ||
+            v.variableLabel.toLowerCase().includes(variableName.toLowerCase())
+          )
+        : variables;
+
+      if (filteredVariables.length === 0) {
+        return createErrorResponse({
+          type: 'variable_not_found',
+          message: `Variable "${variableName}" not found in table ${tableId}`,
+          details: {
+            table_id: tableId,
+            available_variables: variables.map(v => ({ code: v.variableCode, label: v.variableLabel }))
           },
-        ],
+          suggestions: ['Omit variableName to list codelists for all variables']
+        });
+      }
+
+      const responseData = {
+        table_id: tableId,
+        query: {
+          variable_filter: variableName || null,
+          language_used: language,
+          language_warning: langValidation.warning || null
+        },
+        variables: filteredVariables.map(v => ({
+          variable_code: v.variableCode,
+          variable_name: v.variableLabel,
+          codelists: v.codelists,
+          usage_example: v.codelists.length > 0
+            ? { codelist: { [v.variableCode]: v.codelists[0].id } }
+            : null
+        })),
+        metadata: {
+          total_variables: variables.length,
+          variables_with_codelists: variables.filter(v => v.codelists.length > 0).length
+        },
+        tips: [
+          'Use scb_get_codelist to see the values of a codelist',
+          'Pass the codelist to scb_get_table_data as {"VariableName": "codelistId"}; selection values then refer to codelist codes',
+          '"Aggregation" codelists sum up values (e.g. municipalities → counties), "Valueset" codelists select a subset'
+        ]
       };
+
+      return createToolResult(responseData, `${tableId}: ${responseData.metadata.variables_with_codelists} of ${variables.length} variables have codelists\n${filteredVariables.filter(v => v.codelists.length > 0).map(v => `- ${v.variableCode}: ${v.codelists.map(cl => cl.id).join(', ')}`).join('\n')}`);
+    } catch (error) {
+      return createApiErrorResponse(error, {
+        type: 'table_codelists_failed',
+        details: { table_id: tableId, language },
+        suggestions: [
+          'Verify the table ID is correct (e.g., "TAB638", "TAB4552")',
+          'Use scb_search_tables to find valid table IDs'
+        ]
+      });
+    }
+  }
+
+  private async handleGetCodelist(args: ToolArgs<'scb_get_codelist'>) {
+    const { codelistId } = args;
+    const langValidation = validateLanguage(args.language);
+    const language = langValidation.language;
+
+    try {
+      const codelist = await this.apiClient.getCodelist(codelistId, language);
+
+      const responseData = {
+        codelist_id: codelist.id,
+        codelist_name: codelist.label,
+        type: codelist.type,
+        language_used: language,
+        language_warning: langValidation.warning || null,
+        elimination: {
+          allowed: codelist.elimination || false,
+          value_code: codelist.eliminationValueCode || null
+        },
+        total_values: codelist.values.length,
+        values: codelist.values.map(v => ({
+          code: v.code,
+          label: v.label,
+          maps_from: v.valueMap
+        })),
+        tips: [
+          `Select codelist values with: {"codelist": {"VariableName": "${codelist.id}"}, "selection": {"VariableName": ["${codelist.values[0]?.code || 'code'}"]}}`
+        ]
+      };
+
+      return createToolResult(responseData, `Codelist ${codelist.id} (${codelist.label}, ${codelist.type}): ${codelist.values.length} values`);
+    } catch (error) {
+      return createApiErrorResponse(error, {
+        type: 'codelist_failed',
+        details: { codelist_id: codelistId, language },
+        suggestions: [
+          'Use scb_get_table_codelists to find valid codelist ids for a table',
+          'Codelist ids are case-sensitive (e.g., "agg_RegionNUTS2_2008")'
+        ]
+      });
+    }
+  }
+
+  private async handleSaveQuery(args: ToolArgs<'scb_save_query'>) {
+    const { tableId, selection, codelist, format } = args;
+    const langValidation = validateLanguage(args.language);
+    const language = langValidation.language;
+
+    try {
+      const savedQuery = await this.apiClient.createSavedQuery(tableId, selection, language, {
+        codelists: codelist,
+        outputFormat: format
+      });
+
+      const responseData = {
+        saved_query_id: savedQuery.id || null,
+        table_id: savedQuery.tableId,
+        language_used: language,
+        language_warning: langValidation.warning || null,
+        selection: Object.fromEntries(
+          savedQuery.selection.selection.map(s => [s.variableCode, s.valueCodes || []])
+        ),
+        output_format: savedQuery.outputFormat || null,
+        usage_example: {
+          tool: 'scb_run_saved_query',
+          arguments: { savedQueryId: savedQuery.id, format: 'csv' }
+        }
+      };
+
+      return createToolResult(responseData, `Saved query ${responseData.saved_query_id} for table ${responseData.table_id}; run it with scb_run_saved_query`);
+    } catch (error) {
+      return createApiErrorResponse(error, {
+        type: 'save_query_failed',
+        details: { table_id: tableId, selection, language },
+        suggestions: [
+          'Use scb_test_selection to validate your selection first',
+          'Use scb_get_table_variables to see valid variable values'
+        ]
+      });
+    }
+  }
+
+  private async handleGetSavedQuery(args: ToolArgs<'scb_get_saved_query'>) {
+    const { savedQueryId } = args;
+
+    try {
+      const savedQuery = await this.apiClient.getSavedQuery(savedQueryId);
+
+      const responseData = {
+        saved_query_id: savedQuery.id || savedQueryId,
+        table_id: savedQuery.tableId,
+        language: savedQuery.language,
+        selection: Object.fromEntries(
+          savedQuery.selection.selection.map(s => [s.variableCode, s.valueCodes || []])
+        ),
+        codelists: Object.fromEntries(
+          savedQuery.selection.selection
+            .filter(s => s.codeList)
+            .map(s => [s.variableCode, s.codeList])
+        ),
+        placement: savedQuery.selection.placement || null,
+        output_format: savedQuery.outputFormat || null,
+        output_format_params: savedQuery.outputFormatParams || []
+      };
+
+      return createToolResult(responseData, `Saved query ${responseData.saved_query_id}: table ${responseData.table_id}, ${Object.keys(responseData.selection).length} variables${responseData.output_format ? `, format ${responseData.output_format}` : ''}`);
+    } catch (error) {
+      return createApiErrorResponse(error, {
+        type: 'saved_query_not_found',
+        details: { saved_query_id: savedQueryId },
+        suggestions: ['Verify the saved query ID returned by scb_save_query']
+      });
+    }
+  }
+
+  private async handleRunSavedQuery(args: ToolArgs<'scb_run_saved_query'>) {
+    const { savedQueryId } = args;
+    const format = args.format || 'json-stat2';
+    const langValidation = validateLanguage(args.language);
+    const language = langValidation.language;
+
+    try {
+      if (format !== 'json-stat2') {
+        const data = await this.apiClient.runSavedQueryFormatted(savedQueryId, format, language, args.outputFormatParams);
+        return createFormattedDataContent(
+          data,
+          `scb://savedqueries/${encodeURIComponent(savedQueryId)}/data.${format}`,
+          `Saved query ${savedQueryId} in ${format} format`
+        );
+      }
+
+      const data = await this.apiClient.runSavedQuery(savedQueryId, language);
+      const structuredData = this.apiClient.transformToStructuredData(data);
+
+      const responseData = {
+        ...structuredData,
+        query: {
+          ...structuredData.query,
+          saved_query_id: savedQueryId,
+          language_used: language,
+          language_warning: langValidation.warning || null
+        }
+      };
+
+      return createToolResult(responseData, structuredDataSummary(responseData));
+    } catch (error) {
+      return createApiErrorResponse(error, {
+        type: 'saved_query_run_failed',
+        details: { saved_query_id: savedQueryId, format, language },
+        suggestions: [
+          'Verify the saved query ID with scb_get_saved_query',
+          'Use scb_get_api_status to see which output formats are available'
+        ]
+      });
     }
   }
 
@@ -1973,9 +2708,15 @@ Would you like me to search for "${swedishTerm}" now?`,
     }
   }
 
-  async run() {
-    const transport = new StdioServerTransport();
+  /**
+   * Serve MCP over any transport, e.g. an in-memory one in tests
+   */
+  async connect(transport: Transport) {
     await this.server.connect(transport);
+  }
+
+  async run() {
+    await this.connect(new StdioServerTransport());
 
     // This will keep the process running
     process.stdin.resume();
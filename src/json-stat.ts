@@ -0,0 +1,59 @@
+/**
+ * Helpers for reading JSON-stat 2.0 datasets
+ *
+ * JSON-stat allows several shapes for the same thing; these functions hide
+ * the differences so the rest of the code reads one form.
+ */
+
+import { Dataset, JsonStatUnit } from './types.js';
+
+/**
+ * Status symbol of the cell at flatIndex, e.g. ".." for a suppressed value.
+ * `status` may be one string for all cells, an array per cell, or an index -> symbol object.
+ */
+export function cellStatus(status: Dataset['status'], flatIndex: number): string | null {
+  if (status === undefined) return null;
+  if (typeof status === 'string') return status;
+  if (Array.isArray(status)) return status[flatIndex] ?? null;
+  return status[String(flatIndex)] ?? null;
+}
+
+/**
+ * Dimension codes in their index order
+ */
+export function categoryCodes(dataset: Dataset, dimName: string): string[] {
+  const index = dataset.dimension[dimName].category.index;
+  return Object.keys(index).sort((a, b) => index[a] - index[b]);
+}
+
+/**
+ * Unit and decimals per measure, from the dimensions that carry category units
+ */
+export function measureUnits(dataset: Dataset): Record<string, { label: string; unit: string | null; decimals: number | null }> {
+  const units: Record<string, { label: string; unit: string | null; decimals: number | null }> = {};
+  for (const dim of Object.values(dataset.dimension)) {
+    for (const [code, unit] of Object.entries(dim.category.unit || {})) {
+      units[code] = {
+        label: dim.category.label[code] || code,
+        unit: unitName(unit),
+        decimals: unit.decimals ?? null
+      };
+    }
+  }
+  return units;
+}
+
+/**
+ * JSON-stat role of a dimension: time, geo or metric
+ */
+export function dimensionRole(dataset: Dataset, dimName: string): 'time' | 'geo' | 'metric' | null {
+  const roles = dataset.role || {};
+  if (roles.time?.includes(dimName)) return 'time';
+  if (roles.geo?.includes(dimName)) return 'geo';
+  if (roles.metric?.includes(dimName)) return 'metric';
+  return null;
+}
+
+function unitName(unit: JsonStatUnit): string | null {
+  return unit.label || unit.base || unit.symbol || null;
+}
@@ -0,0 +1,199 @@
+/**
+ * Table metadata cache: an in-memory LRU with an optional on-disk layer
+ *
+ * Entries are keyed by table id and language. An entry is dropped when its
+ * TTL runs out or when /tables reports a different `updated` timestamp for
+ * the table than the one the metadata was fetched under. Codelists share the
+ * LRU and the TTL; they are not tied to a table, so only the TTL applies.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ZodTypeAny } from 'zod';
+import { CodeListResponse, CodeListResponseSchema, Dataset, DatasetSchema } from './types.js';
+import { parseWithDrift } from './schema-drift.js';
+
+export interface MetadataCacheOptions {
+  maxEntries: number;
+  ttlMs: number;
+  diskDir?: string;
+}
+
+export interface MetadataCacheStats {
+  hits: number;
+  diskHits: number;
+  misses: number;
+  invalidations: number;
+  entries: number;
+  maxEntries: number;
+  ttlSeconds: number;
+  diskDir: string | null;
+}
+
+type EntryKind = 'table' | 'codelist';
+
+interface CacheEntry<T = Dataset | CodeListResponse> {
+  kind: EntryKind;
+  // Table id, or codelist id for codelists
+  tableId: string;
+  lang: string;
+  updated?: string;
+  fetchedAt: number;
+  metadata: T;
+}
+
+export class MetadataCache {
+  private entries = new Map<string, CacheEntry>();
+  // Latest `updated` value seen per table in /tables listings
+  private knownUpdated = new Map<string, string>();
+  private hits = 0;
+  private diskHits = 0;
+  private misses = 0;
+  private invalidations = 0;
+
+  constructor(private options: MetadataCacheOptions) {}
+
+  async get(tableId: string, lang: string): Promise<Dataset | null> {
+    return this.lookup<Dataset>('table', tableId, lang);
+  }
+
+  async set(tableId: string, lang: string, metadata: Dataset): Promise<void> {
+    await this.store('table', tableId, lang, metadata, metadata.updated ?? this.knownUpdated.get(tableId));
+  }
+
+  async getCodelist(codelistId: string, lang: string): Promise<CodeListResponse | null> {
+    return this.lookup<CodeListResponse>('codelist', codelistId, lang);
+  }
+
+  async setCodelist(codelistId: string, lang: string, codelist: CodeListResponse): Promise<void> {
+    await this.store('codelist', codelistId, lang, codelist);
+  }
+
+  private async lookup<T>(kind: EntryKind, tableId: string, lang: string): Promise<T | null> {
+    const key = this.key(kind, tableId, lang);
+    const entry = this.entries.get(key);
+
+    if (entry && this.isFresh(entry)) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      this.hits++;
+      return entry.metadata as T;
+    }
+    if (entry) {
+      this.entries.delete(key);
+      this.invalidations++;
+    }
+
+    const stored = await this.readFromDisk(kind, tableId, lang);
+    if (stored && this.isFresh(stored)) {
+      this.remember(key, stored);
+      this.hits++;
+      this.diskHits++;
+      return stored.metadata as T;
+    }
+
+    this.misses++;
+    return null;
+  }
+
+  private async store(kind: EntryKind, tableId: string, lang: string, metadata: Dataset | CodeListResponse, updated?: string): Promise<void> {
+    const entry: CacheEntry = { kind, tableId, lang, updated, fetchedAt: Date.now(), metadata };
+    this.remember(this.key(kind, tableId, lang), entry);
+    await this.writeToDisk(entry);
+  }
+
+  /**
+   * Record a table's `updated` value from /tables and drop metadata fetched under an older one
+   */
+  noteTableUpdated(tableId: string, updated: string): void {
+    this.knownUpdated.set(tableId, updated);
+
+    for (const [key, entry] of this.entries) {
+      if (entry.kind === 'table' && entry.tableId === tableId && entry.updated && entry.updated !== updated) {
+        this.entries.delete(key);
+        this.invalidations++;
+      }
+    }
+  }
+
+  getStats(): MetadataCacheStats {
+    return {
+      hits: this.hits,
+      diskHits: this.diskHits,
+      misses: this.misses,
+      invalidations: this.invalidations,
+      entries: this.entries.size,
+      maxEntries: this.options.maxEntries,
+      ttlSeconds: Math.round(this.options.ttlMs / 1000),
+      diskDir: this.options.diskDir || null
+    };
+  }
+
+  private key(kind: EntryKind, tableId: string, lang: string): string {
+    return kind === 'table' ? `${tableId}:${lang}` : `codelist/${tableId}:${lang}`;
+  }
+
+  private isFresh(entry: CacheEntry): boolean {
+    if (Date.now() - entry.fetchedAt > this.options.ttlMs) return false;
+    if (entry.kind !== 'table') return true;
+
+    const updated = this.knownUpdated.get(entry.tableId);
+    return !updated || !entry.updated || updated === entry.updated;
+  }
+
+  private remember(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    // Evict least recently used entries (first in insertion order)
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  private diskPath(kind: EntryKind, tableId: string, lang: string): string {
+    const safe = (part: string) => part.replace(/[^A-Za-z0-9_-]/g, '_');
+    const prefix = kind === 'table' ? '' : 'codelist.';
+    return path.join(this.options.diskDir!, `${prefix}${safe(tableId)}.${safe(lang)}.json`);
+  }
+
+  private async readFromDisk(kind: EntryKind, tableId: string, lang: string): Promise<CacheEntry | null> {
+    if (!this.options.diskDir) return null;
+
+    const [schema, source]: [ZodTypeAny, string] = kind === 'table'
+      ? [DatasetSchema, `/tables/${tableId}/metadata`]
+      : [CodeListResponseSchema, `/codelists/${tableId}`];
+    try {
+      const raw = JSON.parse(await fs.readFile(this.diskPath(kind, tableId, lang), 'utf8'));
+      return {
+        kind,
+        tableId,
+        lang,
+        updated: typeof raw.updated === 'string' ? raw.updated : undefined,
+        fetchedAt: Number(raw.fetchedAt) || 0,
+        // Lenient like the API response it came from, so drifted metadata still loads
+        metadata: parseWithDrift<Dataset | CodeListResponse>(schema, raw.metadata, source).data
+      };
+    } catch {
+      // Missing or unreadable files are plain misses
+      return null;
+    }
+  }
+
+  private async writeToDisk(entry: CacheEntry): Promise<void> {
+    if (!this.options.diskDir) return;
+
+    try {
+      await fs.mkdir(this.options.diskDir, { recursive: true });
+      await fs.writeFile(this.diskPath(entry.kind, entry.tableId, entry.lang), JSON.stringify({
+        updated: entry.updated,
+        fetchedAt: entry.fetchedAt,
+        metadata: entry.metadata
+      }));
+    } catch (error) {
+      console.warn('Failed to write metadata cache file:', error);
+    }
+  }
+}
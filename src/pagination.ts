@@ -0,0 +1,113 @@
+/**
+ * Paging of large table data results, so one call cannot flood an agent's context
+ *
+ * A result larger than max_records / max_tokens is cut into pages. The cursor
+ * returned with a page carries the original request and the next offset; the
+ * follow-up call repeats the request, which is answered from the data cache,
+ * and slices out the next page. Cursors are opaque to clients.
+ */
+
+import { z } from 'zod';
+import { ResponseFormat, RESPONSE_FORMATS } from './response-formats.js';
+import { Placement } from './types.js';
+
+// Token budget per call when the caller gives none
+export const DEFAULT_MAX_TOKENS = 20000;
+
+export interface PageLimits {
+  maxRecords?: number;
+  maxTokens?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  offset: number;
+  // Start of the next page, null on the last page
+  nextOffset: number | null;
+}
+
+export interface DataCursor {
+  tableId: string;
+  selection?: Record<string, string[]>;
+  codelist?: Record<string, string>;
+  layout?: Placement;
+  language: string;
+  responseFormat: ResponseFormat;
+  offset: number;
+  maxRecords?: number;
+  maxTokens?: number;
+  // When the paged dataset was fetched, to notice if a later page comes from a re-fetch
+  fetchedAt: string;
+}
+
+const CURSOR_VERSION = 1;
+
+const DataCursorSchema = z.object({
+  v: z.literal(CURSOR_VERSION),
+  tableId: z.string(),
+  selection: z.record(z.array(z.string())).optional(),
+  codelist: z.record(z.string()).optional(),
+  layout: z.object({ heading: z.array(z.string()).optional(), stub: z.array(z.string()).optional() }).optional(),
+  language: z.string(),
+  responseFormat: z.enum(RESPONSE_FORMATS as [ResponseFormat, ...ResponseFormat[]]),
+  offset: z.number().int().min(0),
+  maxRecords: z.number().int().positive().optional(),
+  maxTokens: z.number().int().positive().optional(),
+  fetchedAt: z.string()
+});
+
+export function encodeCursor(cursor: DataCursor): string {
+  return Buffer.from(JSON.stringify({ v: CURSOR_VERSION, ...cursor })).toString('base64url');
+}
+
+/**
+ * Decode a cursor from encodeCursor; throws on anything else
+ */
+export function decodeCursor(text: string): DataCursor {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(text, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Cursor is not valid; pass the next_cursor value from the previous page unchanged');
+  }
+
+  const parsed = DataCursorSchema.safeParse(decoded);
+  if (!parsed.success) {
+    throw new Error('Cursor is not valid; pass the next_cursor value from the previous page unchanged');
+  }
+  const { v: _version, ...cursor } = parsed.data;
+  return cursor;
+}
+
+/**
+ * Take the page of items starting at offset that fits the limits.
+ * measureTokens gives the size of the whole response for a candidate page,
+ * so the envelope (metadata, summary) counts against the token budget too.
+ * A page always holds at least one item.
+ */
+export function takePage<T>(
+  items: T[],
+  offset: number,
+  limits: PageLimits,
+  measureTokens: (page: T[]) => number
+): Page<T> {
+  let count = Math.min(items.length - offset, limits.maxRecords ?? Infinity);
+
+  if (limits.maxTokens !== undefined && count > 1 && measureTokens(items.slice(offset, offset + count)) > limits.maxTokens) {
+    // Start from the average item size, then shrink until the page fits
+    const envelope = measureTokens([]);
+    const perItem = (measureTokens(items.slice(offset, offset + count)) - envelope) / count;
+    count = Math.max(1, Math.min(count, Math.floor((limits.maxTokens - envelope) / Math.max(perItem, 1))));
+    while (count > 1 && measureTokens(items.slice(offset, offset + count)) > limits.maxTokens) {
+      count = Math.floor(count * 0.9);
+    }
+  }
+
+  count = Math.max(count, Math.min(1, items.length - offset));
+  const end = offset + count;
+  return {
+    items: items.slice(offset, end),
+    offset,
+    nextOffset: end < items.length ? end : null
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Local re-pivoting of JSON-stat2 datasets into a row/column layout
+ *
+ * Mirrors SCB's heading/stub placement for tabular formats: variables in the
+ * heading become columns, variables in the stub become rows.
+ */
+
+import { Dataset, Placement } from './types.js';
+import { categoryCodes } from './json-stat.js';
+
+export interface PivotTable {
+  heading: string[];
+  stub: string[];
+  columns: Array<{ codes: Record<string, string>; label: string }>;
+  rows: Array<{ codes: Record<string, string>; labels: Record<string, string>; values: Array<number | null> }>;
+}
+
+/**
+ * Resolve a (possibly partial) placement into full heading and stub lists.
+ * Variables not mentioned go to the stub, unless only the stub was given.
+ */
+export function resolvePlacement(dataset: Dataset, placement: Placement): { heading: string[]; stub: string[] } {
+  const dimNames = dataset.id.length > 0 ? dataset.id : Object.keys(dataset.dimension);
+  const requested = [...(placement.heading || []), ...(placement.stub || [])];
+
+  const unknown = requested.filter(name => !dimNames.includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown variable(s) in layout: ${unknown.join(', ')}. Available variables: ${dimNames.join(', ')}`);
+  }
+
+  const duplicated = (placement.heading || []).filter(name => (placement.stub || []).includes(name));
+  if (duplicated.length > 0) {
+    throw new Error(`Variable(s) placed in both heading and stub: ${duplicated.join(', ')}`);
+  }
+
+  const rest = dimNames.filter(name => !requested.includes(name));
+  if (placement.heading === undefined && placement.stub !== undefined) {
+    return { heading: rest, stub: placement.stub };
+  }
+  return { heading: placement.heading || [], stub: [...(placement.stub || []), ...rest] };
+}
+
+/**
+ * Pivot a JSON-stat2 dataset into rows (stub) and columns (heading)
+ */
+export function pivotDataset(dataset: Dataset, placement: Placement): PivotTable {
+  const { heading, stub } = resolvePlacement(dataset, placement);
+  const dimNames = dataset.id.length > 0 ? dataset.id : Object.keys(dataset.dimension);
+  const values = dataset.value || [];
+
+  const codesByDim: Record<string, string[]> = {};
+  for (const dimName of dimNames) {
+    codesByDim[dimName] = categoryCodes(dataset, dimName);
+  }
+
+  // Strides of each dimension in the flat (row-major) value array
+  const strides: Record<string, number> = {};
+  let stride = 1;
+  for (let i = dimNames.length - 1; i >= 0; i--) {
+    strides[dimNames[i]] = stride;
+    stride *= codesByDim[dimNames[i]].length;
+  }
+
+  const label = (dimName: string, code: string) =>
+    dataset.dimension[dimName].category.label?.[code] || code;
+
+  const columnCombos = cartesian(heading.map(name => codesByDim[name].map(code => [name, code] as const)));
+  const rowCombos = cartesian(stub.map(name => codesByDim[name].map(code => [name, code] as const)));
+
+  const columns = columnCombos.map(combo => ({
+    codes: Object.fromEntries(combo),
+    label: combo.map(([name, code]) => label(name, code)).join(' ') || 'value'
+  }));
+
+  const rows = rowCombos.map(rowCombo => {
+    const rowOffset = rowCombo.reduce((acc, [name, code]) => acc + strides[name] * codesByDim[name].indexOf(code), 0);
+    return {
+      codes: Object.fromEntries(rowCombo),
+      labels: Object.fromEntries(rowCombo.map(([name, code]) => [name, label(name, code)])),
+      values: columnCombos.map(colCombo => {
+        const offset = colCombo.reduce((acc, [name, code]) => acc + strides[name] * codesByDim[name].indexOf(code), rowOffset);
+        return values[offset] ?? null;
+      })
+    };
+  });
+
+  return { heading, stub, columns, rows };
+}
+
+function cartesian<T>(lists: T[][]): T[][] {
+  return lists.reduce<T[][]>(
+    (acc, list) => acc.flatMap(prefix => list.map(item => [...prefix, item])),
+    [[]]
+  );
+}
@@ -0,0 +1,153 @@
+/**
+ * Queueing token-bucket rate limiter for SCB API calls
+ *
+ * The bucket holds maxCallsPerTimeWindow tokens and refills evenly over
+ * timeWindow seconds. Calls beyond the budget wait in a FIFO queue instead of
+ * failing, up to a configurable maximum wait. A 429 with Retry-After pauses
+ * the whole queue.
+ */
+
+import { RateLimitedError } from './errors.js';
+
+export interface RateLimiterState {
+  capacity: number;
+  windowSeconds: number;
+  tokensAvailable: number;
+  queueDepth: number;
+  maxWaitMs: number;
+  pausedUntil: Date | null;
+}
+
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private queue: Array<() => void> = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private capacity: number,
+    private windowSeconds: number,
+    private maxWaitMs: number
+  ) {
+    this.tokens = capacity;
+  }
+
+  /**
+   * Apply limits read from the API configuration
+   */
+  configure(capacity: number, windowSeconds: number): void {
+    this.refill();
+    this.capacity = capacity;
+    this.windowSeconds = windowSeconds;
+    this.tokens = Math.min(this.tokens, capacity);
+  }
+
+  /**
+   * Wait for a token. Rejects right away if the wait would exceed maxWaitMs,
+   * and leaves the queue if the signal is aborted while waiting.
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new Error('Request cancelled by the client'));
+    }
+
+    const waitMs = this.estimateWaitMs(this.queue.length);
+    if (waitMs > this.maxWaitMs) {
+      return Promise.reject(new RateLimitedError(
+        `Rate limit exceeded. Next free slot in ${Math.ceil(waitMs / 1000)} seconds, ` +
+        `which is more than the maximum wait of ${Math.ceil(this.maxWaitMs / 1000)} seconds. ` +
+        `Queued requests: ${this.queue.length}`,
+        { retryAfterMs: waitMs }
+      ));
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.queue = this.queue.filter(entry => entry !== grant);
+        reject(new Error('Request cancelled by the client'));
+      };
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(grant);
+      this.drain();
+    });
+  }
+
+  /**
+   * Stop handing out tokens for a while, e.g. after a 429 with Retry-After
+   */
+  pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    // Resume with a single call and let the bucket refill from there
+    this.tokens = Math.min(1, this.capacity);
+    this.lastRefill = this.pausedUntil;
+  }
+
+  getState(): RateLimiterState {
+    this.refill();
+    return {
+      capacity: this.capacity,
+      windowSeconds: this.windowSeconds,
+      tokensAvailable: Math.floor(this.tokens),
+      queueDepth: this.queue.length,
+      maxWaitMs: this.maxWaitMs,
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil) : null
+    };
+  }
+
+  private get refillPerMs(): number {
+    return this.capacity / (this.windowSeconds * 1000);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    if (now > this.lastRefill) {
+      this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+      this.lastRefill = now;
+    }
+  }
+
+  private estimateWaitMs(queuePosition: number): number {
+    this.refill();
+    const pauseMs = Math.max(0, this.pausedUntil - Date.now());
+    const missingTokens = queuePosition + 1 - this.tokens;
+    return pauseMs + (missingTokens > 0 ? missingTokens / this.refillPerMs : 0);
+  }
+
+  private drain(): void {
+    if (this.timer) return;
+
+    this.refill();
+    const now = Date.now();
+    while (this.queue.length > 0 && now >= this.pausedUntil && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.queue.shift()!();
+    }
+
+    if (this.queue.length > 0) {
+      const waitMs = Math.max(this.pausedUntil - now, (1 - this.tokens) / this.refillPerMs);
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.drain();
+      }, Math.max(1, Math.ceil(waitMs)));
+    }
+  }
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,96 @@
+/**
+ * Compact shapes for structured records, to keep large results within an agent's context
+ *
+ *   records         one object per cell with codes and labels repeated (default for small results)
+ *   columnar        column names once, rows as arrays of codes, code -> label dictionaries listed once
+ *   wide            pivoted: time in the columns, other dimensions in the rows
+ *   markdown_table  a readable table with labels, for showing to a person
+ */
+
+export type ResponseFormat = 'records' | 'columnar' | 'wide' | 'markdown_table';
+
+export const RESPONSE_FORMATS: ResponseFormat[] = ['records', 'columnar', 'wide', 'markdown_table'];
+
+export function isResponseFormat(value: string): value is ResponseFormat {
+  return (RESPONSE_FORMATS as string[]).includes(value);
+}
+
+// Results with more records than this default to columnar
+export const COLUMNAR_THRESHOLD = 200;
+
+export interface ColumnarData {
+  columns: string[];
+  rows: Array<Array<string | number | null>>;
+  // Labels per dimension column, code -> label
+  dictionaries: Record<string, Record<string, string>>;
+  // Typed periods per time code, if the table has a time dimension
+  periods?: Record<string, { start: string; end: string; frequency: string }>;
+}
+
+/**
+ * The format to use when the caller did not ask for one
+ */
+export function defaultResponseFormat(recordCount: number): ResponseFormat {
+  return recordCount > COLUMNAR_THRESHOLD ? 'columnar' : 'records';
+}
+
+/**
+ * Dimension field prefixes of the records (region, period, ...), in record order
+ */
+export function dimensionFields(records: Array<Record<string, any>>): string[] {
+  if (records.length === 0) return [];
+  return Object.keys(records[0])
+    .filter(key => key.endsWith('_code') && `${key.slice(0, -'_code'.length)}_name` in records[0])
+    .map(key => key.slice(0, -'_code'.length))
+    .reverse();
+}
+
+/**
+ * Records as a header plus rows of codes and values, with labels listed once per code
+ */
+export function toColumnar(records: Array<Record<string, any>>): ColumnarData {
+  const fields = dimensionFields(records);
+  const hasStatus = records.some(record => record.status !== undefined);
+  const dictionaries: Record<string, Record<string, string>> = Object.fromEntries(fields.map(field => [field, {}]));
+  const periods: NonNullable<ColumnarData['periods']> = {};
+
+  const rows = records.map(record => {
+    const row: Array<string | number | null> = fields.map(field => {
+      const code = record[`${field}_code`];
+      dictionaries[field][code] = record[`${field}_name`];
+      return code;
+    });
+    if (record.period_start) {
+      periods[record.period_code] = { start: record.period_start, end: record.period_end, frequency: record.frequency };
+    }
+    row.push(record.value);
+    if (hasStatus) row.push(record.status ?? null);
+    return row;
+  });
+
+  return {
+    columns: [...fields, 'value', ...(hasStatus ? ['status'] : [])],
+    rows,
+    dictionaries,
+    ...(Object.keys(periods).length > 0 ? { periods } : {})
+  };
+}
+
+/**
+ * Records as a markdown table with labels; status symbols stand in for missing values
+ */
+export function toMarkdownTable(records: Array<Record<string, any>>, headers: Record<string, string> = {}): string {
+  const fields = dimensionFields(records);
+  if (fields.length === 0) return '_No data_';
+
+  const escape = (text: unknown) => String(text ?? '').replace(/\|/g, '\\|');
+  const lines = [
+    `| ${[...fields.map(field => headers[field] || field), 'value'].map(escape).join(' | ')} |`,
+    `| ${[...fields.map(() => '---'), '---:'].join(' | ')} |`
+  ];
+  for (const record of records) {
+    const value = record.value ?? record.status ?? '';
+    lines.push(`| ${[...fields.map(field => record[`${field}_name`]), value].map(escape).join(' | ')} |`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,102 @@
+/**
+ * Rough size estimates for tool responses, so agents can judge a query before running it
+ *
+ * Sizes are for the compact JSON scb_get_table_data returns as structured
+ * content, in the response format asked for. Token counts assume about four
+ * characters per token, which is close for JSON with short Swedish and
+ * English strings.
+ */
+
+import { ResponseFormat } from './response-formats.js';
+
+export const CHARS_PER_TOKEN = 4;
+
+export interface ResponseSizeEstimate {
+  records: number;
+  bytes: number;
+  tokens: number;
+}
+
+export interface DimensionSample {
+  // Field name prefix used in records, e.g. "region" for region_code/region_name
+  fieldName: string;
+  codes: string[];
+  labels: Record<string, string>;
+  // Time dimensions add period_start, period_end and frequency to every record
+  time?: boolean;
+}
+
+export function estimateTokens(chars: number): number {
+  return Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate the size of the data for a selection (one record per cell) in the given response format
+ */
+export function estimateRecordsSize(dimensions: DimensionSample[], format: ResponseFormat = 'records'): ResponseSizeEstimate {
+  const records = dimensions.reduce((acc, dim) => acc * dim.codes.length, 1);
+  const bytes = Math.round(estimateBytes(dimensions, records, format));
+  return { records, bytes, tokens: estimateTokens(bytes) };
+}
+
+// A value such as 123456.7
+const VALUE_CHARS = 8;
+// "period_start":"2024-01-01","period_end":"2024-03-31","frequency":"quarterly"
+const PERIOD_CHARS = 78;
+
+function estimateBytes(dimensions: DimensionSample[], records: number, format: ResponseFormat): number {
+  const avgCode = (dim: DimensionSample) => average(dim.codes.map(code => code.length));
+  const avgLabel = (dim: DimensionSample) => average(dim.codes.map(code => (dim.labels[code] || code).length));
+  // "code":"label", for every code of a dimension
+  const dictionary = (dim: DimensionSample) => dim.codes.reduce((acc, code) => acc + code.length + (dim.labels[code] || code).length + 6, 0);
+
+  switch (format) {
+    case 'columnar': {
+      // ["0180","2024",123456.7], plus code -> label dictionaries and typed periods listed once
+      let rowBytes = 3 + VALUE_CHARS;
+      let onceBytes = 60;
+      for (const dim of dimensions) {
+        rowBytes += avgCode(dim) + 3;
+        onceBytes += 2 * dim.fieldName.length + 8 + dictionary(dim);
+        if (dim.time) onceBytes += dim.codes.reduce((acc, code) => acc + code.length + 69, 0);
+      }
+      return records * rowBytes + onceBytes;
+    }
+    case 'markdown_table': {
+      // | Stockholm | 2024 | 123456.7 |\n inside a JSON string, after two header lines
+      let rowBytes = 6 + VALUE_CHARS;
+      let headerBytes = 0;
+      for (const dim of dimensions) {
+        rowBytes += avgLabel(dim) + 3;
+        headerBytes += 2 * (dim.fieldName.length + 3);
+      }
+      return records * rowBytes + headerBytes;
+    }
+    case 'wide': {
+      // One row per combination of the other dimensions, with a value per time period
+      const heading = dimensions.find(dim => dim.time) || dimensions[dimensions.length - 1];
+      if (!heading) return 0;
+      const rows = records / Math.max(heading.codes.length, 1);
+      let rowBytes = 40 + heading.codes.length * (VALUE_CHARS + 1);
+      for (const dim of dimensions) {
+        if (dim === heading) continue;
+        rowBytes += 2 * (dim.fieldName.length + 6) + avgCode(dim) + avgLabel(dim);
+      }
+      // {"codes":{"Tid":"2024"},"label":"2024"}, per column
+      return rows * rowBytes + heading.codes.length * (heading.fieldName.length + 24) + dictionary(heading);
+    }
+    default: {
+      // {"region_code":"0180","region_name":"Stockholm",...,"value":123456.7},
+      let recordBytes = 3 + 8 + VALUE_CHARS;
+      for (const dim of dimensions) {
+        recordBytes += 2 * (dim.fieldName.length + 11) + avgCode(dim) + avgLabel(dim);
+        if (dim.time) recordBytes += PERIOD_CHARS;
+      }
+      return records * recordBytes;
+    }
+  }
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
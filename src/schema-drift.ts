@@ -0,0 +1,111 @@
+/**
+ * Lenient parsing of SCB API responses
+ *
+ * SCB changes its responses from time to time (new category values, dropped
+ * fields such as `type`). In lenient mode, unknown fields pass through and
+ * mismatches the rest of the code can live with become warnings instead of
+ * failures: an unknown value in a classifying field (category, type), or a
+ * missing or null descriptive field (descriptions, links, notes). Anything
+ * else, such as a dimension without categories, still fails, since the code
+ * relies on it. Each distinct warning is logged once per
+ * process. Strict mode fails on any mismatch and is what the contract tests
+ * use (set SCB_SCHEMA_MODE=strict to run the server that way).
+ */
+
+import { ZodIssue, ZodTypeAny } from 'zod';
+import { schemaMismatch } from './errors.js';
+
+export type SchemaMode = 'lenient' | 'strict';
+
+export interface SchemaWarning {
+  source: string;
+  path: string;
+  message: string;
+}
+
+export interface DriftParseResult<T> {
+  data: T;
+  warnings: SchemaWarning[];
+}
+
+// Warnings already logged, so a drifted field is reported once and not on every call
+const loggedWarnings = new Set<string>();
+
+/**
+ * Parse data against a schema. source (usually the request URL) is used in warnings and errors.
+ * Throws SchemaMismatchError when the data cannot be used.
+ */
+export function parseWithDrift<T>(schema: ZodTypeAny, data: unknown, source: string, mode: SchemaMode = 'lenient'): DriftParseResult<T> {
+  const result = schema.safeParse(data);
+  if (result.success) {
+    // The original keeps fields the schema does not know about
+    return { data: (mode === 'lenient' ? data : result.data) as T, warnings: [] };
+  }
+
+  if (mode === 'strict' || !result.error.issues.every(isRecoverable)) {
+    throw schemaMismatch(result.error, source);
+  }
+
+  const warnings = uniqueWarnings(result.error.issues.map(issue => ({
+    source: sourceName(source),
+    path: formatPath(issue.path),
+    message: issue.message
+  })));
+  for (const warning of warnings) {
+    logOnce(warning);
+  }
+
+  return { data: data as T, warnings };
+}
+
+// Fields whose unknown values are kept as received; version, class and the like identify a response and still fail
+const OPEN_ENUM_FIELDS = new Set(['category', 'type', 'position']);
+
+// Fields only passed on to the user; a missing or null one (or anything inside it) is tolerated
+const DESCRIPTIVE_FIELDS = new Set(['description', 'links', 'link', 'note', 'notes', 'contact', 'sourceReferences']);
+
+/**
+ * Drop repeated warnings, e.g. the same drift in every element of an array or in several calls
+ */
+export function uniqueWarnings(warnings: SchemaWarning[]): SchemaWarning[] {
+  const seen = new Set<string>();
+  return warnings.filter(warning => {
+    const key = `${warning.source}|${warning.path}|${warning.message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function isRecoverable(issue: ZodIssue): boolean {
+  const fields = issue.path.filter((part): part is string => typeof part === 'string');
+  if (issue.code === 'invalid_enum_value' || issue.code === 'invalid_literal') {
+    return OPEN_ENUM_FIELDS.has(fields[fields.length - 1]);
+  }
+  if (issue.code === 'invalid_type' && (issue.received === 'undefined' || issue.received === 'null')) {
+    return fields.some(field => DESCRIPTIVE_FIELDS.has(field));
+  }
+  return false;
+}
+
+// tables.12.links -> tables[].links, so the same drift in every array element is one warning
+function formatPath(path: Array<string | number>): string {
+  return path.map(part => (typeof part === 'number' ? '[]' : part)).join('.').replace(/\.\[\]/g, '[]') || '(root)';
+}
+
+// Endpoint without host and query, e.g. /tables/TAB638/metadata
+function sourceName(source: string): string {
+  try {
+    return new URL(source).pathname.replace(/^\/api\/v2/, '');
+  } catch {
+    return source;
+  }
+}
+
+function logOnce(warning: SchemaWarning): void {
+  // Table ids vary per call; the drift is the same for every table
+  const key = `${warning.source.replace(/\/tables\/[^/]+/, '/tables/{id}')}|${warning.path}|${warning.message}`;
+  if (loggedWarnings.has(key)) return;
+  loggedWarnings.add(key);
+  console.warn(`SCB API schema drift in ${warning.source} at ${warning.path}: ${warning.message}`);
+}
@@ -0,0 +1,177 @@
+/**
+ * PxAPI 2 selection expressions, parsed and expanded against a variable's codes
+ *
+ * Grammar (docs/specs.md, "Selection expression"):
+ *   *, 01*, *01, *2*   wildcard, at most two asterisks
+ *   ??80               exactly one character per question mark
+ *   TOP(n[,offset])    first n values, skipping offset
+ *   BOTTOM(n[,offset]) last n values, skipping offset from the end
+ *   RANGE(a,b)         values from code a to code b, inclusive
+ *   FROM(a), TO(a)     values from code a to the end / from the start to code a
+ *   [code]             a literal code, for codes that look like expressions
+ * Function names are case-insensitive. Anything else is an exact value code.
+ */
+
+export type SelectionExpression =
+  | { type: 'code'; code: string }
+  | { type: 'wildcard'; pattern: string }
+  | { type: 'top' | 'bottom'; count: number; offset: number }
+  | { type: 'range'; from: string; to: string }
+  | { type: 'from' | 'to'; code: string };
+
+export interface ValueResolution {
+  value: string;
+  expression?: SelectionExpression;
+  // Codes selected, in the variable's order
+  codes: string[];
+  error?: string;
+}
+
+const FUNCTION_ARITY: Record<string, [number, number]> = {
+  TOP: [1, 2],
+  BOTTOM: [1, 2],
+  RANGE: [2, 2],
+  FROM: [1, 1],
+  TO: [1, 1]
+};
+
+/**
+ * Parse one selection value. Throws with a precise message when an expression is malformed.
+ */
+export function parseSelectionExpression(value: string): SelectionExpression {
+  const text = value.trim();
+
+  if (text.startsWith('[') && text.endsWith(']')) {
+    return { type: 'code', code: text.slice(1, -1) };
+  }
+
+  const call = text.match(/^([A-Za-z]+)\s*\((.*)$/);
+  if (call && FUNCTION_ARITY[call[1].toUpperCase()]) {
+    const name = call[1].toUpperCase();
+    if (!call[2].endsWith(')')) {
+      throw new Error(`Missing closing parenthesis in "${text}"`);
+    }
+
+    const args = call[2].slice(0, -1).split(',').map(arg => arg.trim());
+    const [minArgs, maxArgs] = FUNCTION_ARITY[name];
+    if (args.length < minArgs || args.length > maxArgs || args.some(arg => arg === '')) {
+      const expected = minArgs === maxArgs ? `${minArgs}` : `${minArgs} or ${maxArgs}`;
+      throw new Error(`${name} takes ${expected} argument${maxArgs > 1 ? 's' : ''}, got "${text}"`);
+    }
+
+    if (name === 'TOP' || name === 'BOTTOM') {
+      const [count, offset = '0'] = args;
+      if (!/^\d+$/.test(count) || parseInt(count) < 1) {
+        throw new Error(`${name} count must be a positive whole number, got "${count}" in "${text}"`);
+      }
+      if (!/^\d+$/.test(offset)) {
+        throw new Error(`${name} offset must be a whole number of at least 0, got "${offset}" in "${text}"`);
+      }
+      return { type: name === 'TOP' ? 'top' : 'bottom', count: parseInt(count), offset: parseInt(offset) };
+    }
+
+    if (name === 'RANGE') {
+      return { type: 'range', from: args[0], to: args[1] };
+    }
+
+    return { type: name === 'FROM' ? 'from' : 'to', code: args[0] };
+  }
+
+  if (call && call[2].endsWith(')')) {
+    throw new Error(`Unknown selection function ${call[1]}() in "${text}". Use TOP, BOTTOM, RANGE, FROM or TO`);
+  }
+
+  if (text.includes('*') || text.includes('?')) {
+    const stars = (text.match(/\*/g) || []).length;
+    if (stars > 2) {
+      throw new Error(`Wildcard "${text}" has ${stars} asterisks; at most 2 are allowed`);
+    }
+    return { type: 'wildcard', pattern: text };
+  }
+
+  return { type: 'code', code: text };
+}
+
+/**
+ * Resolve one selection value against a variable's codes.
+ * Exact codes win over expressions, so a code that looks like an expression is still found.
+ */
+export function resolveSelectionValue(value: string, codes: string[]): ValueResolution {
+  if (codes.includes(value)) {
+    return { value, expression: { type: 'code', code: value }, codes: [value] };
+  }
+
+  let expression: SelectionExpression;
+  try {
+    expression = parseSelectionExpression(value);
+  } catch (error) {
+    return { value, codes: [], error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const position = (code: string) => codes.indexOf(code);
+  const missing = (code: string) => ({ value, expression, codes: [], error: `Code "${code}" in "${value}" not found` });
+
+  switch (expression.type) {
+    case 'code':
+      return codes.includes(expression.code)
+        ? { value, expression, codes: [expression.code] }
+        : { value, expression, codes: [], error: `Value "${expression.code}" not found` };
+
+    case 'wildcard': {
+      const regex = new RegExp('^' + expression.pattern
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*')
+        .replace(/\?/g, '.') + '$');
+      const matched = codes.filter(code => regex.test(code));
+      return matched.length > 0
+        ? { value, expression, codes: matched }
+        : { value, expression, codes: [], error: `Wildcard "${value}" matches no codes` };
+    }
+
+    case 'top':
+      return { value, expression, codes: codes.slice(expression.offset, expression.offset + expression.count) };
+
+    case 'bottom': {
+      const end = Math.max(0, codes.length - expression.offset);
+      return { value, expression, codes: codes.slice(Math.max(0, end - expression.count), end) };
+    }
+
+    case 'range': {
+      const start = position(expression.from);
+      const end = position(expression.to);
+      if (start < 0) return missing(expression.from);
+      if (end < 0) return missing(expression.to);
+      if (start > end) {
+        return { value, expression, codes: [], error: `"${value}" is empty: "${expression.from}" comes after "${expression.to}"` };
+      }
+      return { value, expression, codes: codes.slice(start, end + 1) };
+    }
+
+    case 'from': {
+      const start = position(expression.code);
+      return start < 0 ? missing(expression.code) : { value, expression, codes: codes.slice(start) };
+    }
+
+    case 'to': {
+      const end = position(expression.code);
+      return end < 0 ? missing(expression.code) : { value, expression, codes: codes.slice(0, end + 1) };
+    }
+  }
+}
+
+/**
+ * Expand selection values to the explicit codes they select.
+ * Unknown codes and malformed expressions are left out; validation reports them separately.
+ */
+export function expandSelectionValues(values: string[], codes: string[]): string[] {
+  const selected = new Set<string>();
+
+  for (const value of values) {
+    for (const code of resolveSelectionValue(value.trim(), codes).codes) {
+      selected.add(code);
+    }
+  }
+
+  // Keep the variable's own order
+  return codes.filter(code => selected.has(code));
+}
@@ -0,0 +1,128 @@
+/**
+ * Summary statistics for structured records, grouped by measure
+ *
+ * A table often mixes measures (ContentsCode values) such as population
+ * counts, percentages and averages. Each measure is summarized on its own,
+ * with its unit, and values are only summed for measures where a sum means
+ * something (counts and amounts, not rates, shares or averages).
+ */
+
+export interface MeasureInfo {
+  label: string;
+  unit: string | null;
+  decimals: number | null;
+}
+
+export interface ExtremeRecord {
+  value: number;
+  // Dimension labels of the record, keyed by field name (region, period, ...)
+  labels: Record<string, string>;
+}
+
+export interface MeasureSummary {
+  measure_code: string | null;
+  measure_name: string | null;
+  unit: string | null;
+  decimals: number | null;
+  count: number;
+  null_count: number;
+  suppressed_count: number;
+  min: number | null;
+  max: number | null;
+  mean: number | null;
+  median: number | null;
+  additive: boolean;
+  // Only for additive measures
+  sum: number | null;
+  min_record: ExtremeRecord | null;
+  max_record: ExtremeRecord | null;
+}
+
+// Labels and units of measures whose values cannot be added up
+const NON_ADDITIVE = /procent|percent|%|andel|share|medel|mean|average|genomsnitt|median|kvot|ratio|index|per\b|\/|rate|takt|frekvens|pris|price|ålder|age\b/i;
+
+/**
+ * Whether values of a measure can be summed
+ */
+export function isAdditiveMeasure(label: string, unit: string | null): boolean {
+  return !NON_ADDITIVE.test(label) && !(unit && NON_ADDITIVE.test(unit));
+}
+
+/**
+ * Summarize records per measure. measureField is the records' field prefix for the
+ * measure dimension (e.g. "observation_type"), or null when the table has none.
+ */
+export function summarizeByMeasure(
+  records: Array<Record<string, any>>,
+  measureField: string | null,
+  measures: Record<string, MeasureInfo>
+): MeasureSummary[] {
+  const groups = new Map<string | null, Array<Record<string, any>>>();
+  for (const record of records) {
+    const code = measureField ? record[`${measureField}_code`] ?? null : null;
+    if (!groups.has(code)) groups.set(code, []);
+    groups.get(code)!.push(record);
+  }
+
+  return [...groups].map(([code, group]) => {
+    const info = code !== null ? measures[code] : undefined;
+    const name = info?.label ?? (code !== null ? group[0][`${measureField}_name`] ?? code : null);
+    const unit = info?.unit ?? null;
+    const withValues = group.filter(record => typeof record.value === 'number');
+    const values = withValues.map(record => record.value as number).sort((a, b) => a - b);
+    const additive = isAdditiveMeasure(name || '', unit);
+    const sum = values.reduce((total, value) => total + value, 0);
+
+    const minRecord = extreme(withValues, (a, b) => a < b, measureField);
+    const maxRecord = extreme(withValues, (a, b) => a > b, measureField);
+
+    return {
+      measure_code: code,
+      measure_name: name,
+      unit,
+      decimals: info?.decimals ?? null,
+      count: values.length,
+      null_count: group.length - values.length,
+      suppressed_count: group.filter(record => record.value === null && record.status !== undefined).length,
+      min: values.length > 0 ? values[0] : null,
+      max: values.length > 0 ? values[values.length - 1] : null,
+      mean: values.length > 0 ? round(sum / values.length) : null,
+      median: values.length > 0 ? median(values) : null,
+      additive,
+      sum: additive && values.length > 0 ? round(sum) : null,
+      min_record: minRecord,
+      max_record: maxRecord
+    };
+  });
+}
+
+function extreme(
+  records: Array<Record<string, any>>,
+  better: (a: number, b: number) => boolean,
+  measureField: string | null
+): ExtremeRecord | null {
+  let best: Record<string, any> | null = null;
+  for (const record of records) {
+    if (!best || better(record.value, best.value)) best = record;
+  }
+  if (!best) return null;
+
+  const labels: Record<string, string> = {};
+  for (const [key, value] of Object.entries(best)) {
+    if (!key.endsWith('_name')) continue;
+    const field = key.slice(0, -'_name'.length);
+    if (field !== measureField) labels[field] = value;
+  }
+  return { value: best.value, labels };
+}
+
+// values must be sorted
+function median(values: number[]): number {
+  const middle = Math.floor(values.length / 2);
+  return values.length % 2 === 1 ? values[middle] : round((values[middle - 1] + values[middle]) / 2);
+}
+
+// Drop floating point noise from sums and means
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
@@ -0,0 +1,162 @@
+/**
+ * Resolution of relative time expressions against a table's time codes
+ *
+ * SCB time codes follow the table's frequency: 2024 (annual), 2024K1
+ * (quarterly), 2024M03 (monthly) and 2024V12 (weekly). Expressions such as
+ * "latest", "last 5 years", "since 2015", "2020-2024", "2023Q1..2024Q4" and
+ * "same month last year" are turned into the codes the table actually has.
+ */
+
+import { TimeFrequency, parseTimePeriod } from './time-periods.js';
+
+export type { TimeFrequency };
+
+interface Period {
+  code: string;
+  frequency: TimeFrequency;
+  start: Date;
+  // Exclusive
+  end: Date;
+}
+
+export type TimeResolution = { codes: string[] } | { error: string };
+
+const UNIT_PATTERNS: Array<[RegExp, 'years' | 'quarters' | 'months' | 'weeks']> = [
+  [/^(years?|år(en)?)$/, 'years'],
+  [/^(quarters?|kvartal(en)?)$/, 'quarters'],
+  [/^(months?|månad(er|erna)?)$/, 'months'],
+  [/^(weeks?|veck(a|or|orna))$/, 'weeks']
+];
+
+/**
+ * An SCB time code as a calendar span with an exclusive end, for window arithmetic
+ */
+function parsePeriod(code: string): Period | null {
+  const period = parseTimePeriod(code);
+  if (!period) return null;
+  return { code, frequency: period.frequency, start: new Date(period.start), end: addDays(new Date(period.end), 1) };
+}
+
+/**
+ * Bring user notation (2023Q1, 2023-03, 2023M3, 2023W12) to SCB's code format
+ */
+function normalizePeriodInput(text: string): string {
+  const value = text.trim().toUpperCase();
+
+  let match = value.match(/^(\d{4})\s*[QK]([1-4])$/);
+  if (match) return `${match[1]}K${match[2]}`;
+
+  match = value.match(/^(\d{4})(?:\s*M|-)(\d{1,2})$/);
+  if (match) return `${match[1]}M${match[2].padStart(2, '0')}`;
+
+  match = value.match(/^(\d{4})\s*[VW](\d{1,2})$/);
+  if (match) return `${match[1]}V${match[2].padStart(2, '0')}`;
+
+  return value;
+}
+
+/**
+ * The most common frequency among a table's time codes
+ */
+export function detectFrequency(codes: string[]): TimeFrequency | null {
+  const counts = new Map<TimeFrequency, number>();
+  for (const code of codes) {
+    const period = parsePeriod(code);
+    if (period) counts.set(period.frequency, (counts.get(period.frequency) || 0) + 1);
+  }
+  const [best] = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  return best ? best[0] : null;
+}
+
+/**
+ * Resolve a time expression against the table's time codes.
+ * Returns null when the value is not a time expression (plain codes, TOP(n), ...).
+ */
+export function resolveTimeExpression(value: string, codes: string[]): TimeResolution | null {
+  const text = value.trim().toLowerCase().replace(/\s+/g, ' ');
+  const periods = codes.map(parsePeriod).filter((p): p is Period => p !== null);
+  if (periods.length === 0) return null;
+
+  const earliest = periods.reduce((a, b) => (b.start < a.start ? b : a));
+  const latest = periods.reduce((a, b) => (b.start > a.start ? b : a));
+  const frequency = detectFrequency(codes)!;
+  const select = (predicate: (p: Period) => boolean, description: string): TimeResolution => {
+    const selected = new Set(periods.filter(predicate).map(p => p.code));
+    return selected.size > 0
+      ? { codes: codes.filter(code => selected.has(code)) }
+      : { error: `"${value}" matches no periods in this table (${frequency} data, ${earliest.code}–${latest.code}); ${description}` };
+  };
+
+  // latest / senaste
+  if (/^(latest|newest|recent|current|senaste|nyaste)$/.test(text)) {
+    return { codes: [latest.code] };
+  }
+
+  // latest 3 / senaste 3 - a number of periods in the table's own frequency
+  let match = text.match(/^(?:latest|last|senaste) (\d+)$/);
+  if (match) {
+    const count = parseInt(match[1]);
+    const ordered = [...periods].sort((a, b) => a.start.getTime() - b.start.getTime()).slice(-count);
+    return select(p => ordered.includes(p), 'count must be at least 1');
+  }
+
+  // last 5 years / senaste 12 månaderna - a calendar window ending with the latest period
+  match = text.match(/^(?:last|past|senaste) (\d+) (\S+)$/);
+  if (match) {
+    const unit = UNIT_PATTERNS.find(([pattern]) => pattern.test(match![2]))?.[1];
+    if (!unit) return { error: `Unknown time unit "${match[2]}" in "${value}". Use years, quarters, months or weeks` };
+
+    const count = parseInt(match[1]);
+    const cutoff = new Date(latest.end);
+    if (unit === 'years') cutoff.setUTCFullYear(cutoff.getUTCFullYear() - count);
+    if (unit === 'quarters') cutoff.setUTCMonth(cutoff.getUTCMonth() - 3 * count);
+    if (unit === 'months') cutoff.setUTCMonth(cutoff.getUTCMonth() - count);
+    if (unit === 'weeks') cutoff.setTime(addDays(cutoff, -7 * count).getTime());
+
+    return select(p => p.end > cutoff, `the latest period is ${latest.code}`);
+  }
+
+  // since 2015 / from 2020K1 / sedan 2015
+  match = text.match(/^(?:since|from|sedan|från|fr\.o\.m\.?) (\S+)$/);
+  if (match) {
+    const from = parsePeriod(normalizePeriodInput(match[1]));
+    if (!from) return { error: `Could not read "${match[1]}" as a time period in "${value}"` };
+    return select(p => p.start >= from.start, `the latest period is ${latest.code}`);
+  }
+
+  // "same month last year" and friends, relative to the latest period
+  match = text.match(/^same (month|quarter|week|period) (?:last|previous) year$/);
+  if (match) {
+    const expected: Partial<Record<string, TimeFrequency>> = { month: 'monthly', quarter: 'quarterly', week: 'weekly' };
+    if (expected[match[1]] && expected[match[1]] !== latest.frequency) {
+      return { error: `"${value}" needs ${expected[match[1]]} data, but this table has ${latest.frequency} periods (latest ${latest.code})` };
+    }
+    const code = latest.code.replace(/^\d{4}/, year => String(parseInt(year) - 1));
+    return codes.includes(code)
+      ? { codes: [code] }
+      : { error: `"${value}" resolves to ${code}, which this table does not have` };
+  }
+
+  // A single period in another notation, e.g. 2024Q1 -> 2024K1 or 2024-03 -> 2024M03
+  const single = normalizePeriodInput(text);
+  if (single !== value && codes.includes(single)) {
+    return { codes: [single] };
+  }
+
+  // 2020-2024 / 2023Q1..2024Q4
+  match = text.match(/^(\S+?) ?(?:\.\.|-|–) ?(\S+)$/);
+  if (match) {
+    const from = parsePeriod(normalizePeriodInput(match[1]));
+    const to = parsePeriod(normalizePeriodInput(match[2]));
+    if (from && to) {
+      if (from.start > to.start) return { error: `"${value}" is an empty range: ${from.code} comes after ${to.code}` };
+      return select(p => p.start >= from.start && p.end <= to.end, `the table covers ${earliest.code}–${latest.code}`);
+    }
+  }
+
+  return null;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
@@ -0,0 +1,87 @@
+/**
+ * Typed time periods parsed from SCB time codes
+ *
+ * SCB time codes follow the table's frequency: 2024 (annual), 2024K1
+ * (quarterly), 2024M03 (monthly) and 2024V12 (ISO weekly). Parsed periods
+ * carry calendar start and end dates, so series with different frequencies
+ * can be sorted, plotted and joined on a common time axis.
+ */
+
+export type TimeFrequency = 'annual' | 'quarterly' | 'monthly' | 'weekly';
+
+export interface TimePeriod {
+  code: string;
+  frequency: TimeFrequency;
+  year: number;
+  // Quarter, month or week number within the year; null for annual periods
+  subPeriod: number | null;
+  // First and last day of the period as ISO dates (YYYY-MM-DD), both inclusive
+  start: string;
+  end: string;
+}
+
+/**
+ * Parse an SCB time code. Returns null for codes that are not periods.
+ */
+export function parseTimePeriod(code: string): TimePeriod | null {
+  let match = code.match(/^(\d{4})$/);
+  if (match) {
+    const year = parseInt(match[1]);
+    return period(code, 'annual', year, null, utc(year, 0), utc(year + 1, 0));
+  }
+
+  match = code.match(/^(\d{4})K([1-4])$/);
+  if (match) {
+    const year = parseInt(match[1]);
+    const quarter = parseInt(match[2]);
+    return period(code, 'quarterly', year, quarter, utc(year, (quarter - 1) * 3), utc(year, quarter * 3));
+  }
+
+  match = code.match(/^(\d{4})M(0[1-9]|1[0-2])$/);
+  if (match) {
+    const year = parseInt(match[1]);
+    const month = parseInt(match[2]);
+    return period(code, 'monthly', year, month, utc(year, month - 1), utc(year, month));
+  }
+
+  match = code.match(/^(\d{4})V(0[1-9]|[1-4]\d|5[0-3])$/);
+  if (match) {
+    const year = parseInt(match[1]);
+    const week = parseInt(match[2]);
+    const start = isoWeekStart(year, week);
+    return period(code, 'weekly', year, week, start, addDays(start, 7));
+  }
+
+  return null;
+}
+
+/**
+ * Whether a code is an SCB time period
+ */
+export function isPeriodCode(code: string): boolean {
+  return parseTimePeriod(code) !== null;
+}
+
+// end is exclusive here; the period itself stores the last day
+function period(code: string, frequency: TimeFrequency, year: number, subPeriod: number | null, start: Date, end: Date): TimePeriod {
+  return { code, frequency, year, subPeriod, start: isoDate(start), end: isoDate(addDays(end, -1)) };
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function utc(year: number, month: number): Date {
+  return new Date(Date.UTC(year, month, 1));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+// Monday of ISO week 1 is the Monday of the week containing 4 January
+function isoWeekStart(year: number, week: number): Date {
+  const jan4 = new Date(Date.UTC(year, 0, 4));
+  const mondayWeek1 = addDays(jan4, -((jan4.getUTCDay() + 6) % 7));
+  return addDays(mondayWeek1, (week - 1) * 7);
+}
@@ -0,0 +1,128 @@
+import { z } from 'zod';
+
+/**
+ * Argument schemas for each tool, parsed before a handler runs
+ *
+ * These follow the inputSchema the tools advertise and check only the shape of
+ * the arguments. Value rules with their own error types (language, category,
+ * response_format, page limits, ...) stay in the handlers so callers keep
+ * getting those specific errors. Unknown arguments are dropped.
+ */
+
+const selection = z.record(z.array(z.string()));
+const codelist = z.record(z.string());
+
+export const TOOL_INPUT_SCHEMAS = {
+  scb_get_api_status: z.object({}),
+  scb_search_tables: z.object({
+    query: z.string().optional(),
+    pastDays: z.number().optional(),
+    includeDiscontinued: z.boolean().optional(),
+    pageSize: z.number().optional(),
+    pageNumber: z.number().optional(),
+    language: z.string().optional(),
+    category: z.string().optional()
+  }),
+  scb_get_table_info: z.object({
+    tableId: z.string(),
+    language: z.string().optional()
+  }),
+  scb_get_table_data: z.object({
+    tableId: z.string(),
+    selection: selection.optional(),
+    codelist: codelist.optional(),
+    format: z.string().optional(),
+    outputFormatParams: z.array(z.string()).optional(),
+    layout: z.object({
+      heading: z.array(z.string()).optional(),
+      stub: z.array(z.string()).optional()
+    }).optional(),
+    response_format: z.string().optional(),
+    max_records: z.number().optional(),
+    max_tokens: z.number().optional(),
+    cursor: z.string().optional(),
+    language: z.string().optional()
+  }),
+  scb_check_usage: z.object({}),
+  scb_search_regions: z.object({
+    query: z.string(),
+    language: z.string().optional()
+  }),
+  scb_get_table_variables: z.object({
+    tableId: z.string(),
+    language: z.string().optional(),
+    variableName: z.string().optional()
+  }),
+  scb_find_region_code: z.object({
+    query: z.string(),
+    tableId: z.string().optional(),
+    language: z.string().optional()
+  }),
+  scb_test_selection: z.object({
+    tableId: z.string(),
+    selection: selection.optional(),
+    codelist: codelist.optional(),
+    language: z.string().optional()
+  }),
+  scb_preview_data: z.object({
+    tableId: z.string(),
+    selection: selection.optional(),
+    codelist: codelist.optional(),
+    language: z.string().optional()
+  }),
+  scb_get_table_codelists: z.object({
+    tableId: z.string(),
+    variableName: z.string().optional(),
+    language: z.string().optional()
+  }),
+  scb_get_codelist: z.object({
+    codelistId: z.string(),
+    language: z.string().optional()
+  }),
+  scb_save_query: z.object({
+    tableId: z.string(),
+    selection,
+    codelist: codelist.optional(),
+    format: z.string().optional(),
+    language: z.string().optional()
+  }),
+  scb_get_saved_query: z.object({
+    savedQueryId: z.string()
+  }),
+  scb_run_saved_query: z.object({
+    savedQueryId: z.string(),
+    format: z.string().optional(),
+    outputFormatParams: z.array(z.string()).optional(),
+    language: z.string().optional()
+  })
+};
+
+export type ToolName = keyof typeof TOOL_INPUT_SCHEMAS;
+
+export type ToolArgs<T extends ToolName> = z.infer<typeof TOOL_INPUT_SCHEMAS[T]>;
+
+/**
+ * Tool arguments that do not have the shape the tool's inputSchema describes
+ */
+export class InvalidToolArgumentsError extends Error {
+  readonly tool: ToolName;
+  readonly issues: string[];
+
+  constructor(tool: ToolName, issues: string[]) {
+    super(`Invalid arguments for ${tool}: ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? ` (+${issues.length - 3} more)` : ''}`);
+    this.name = 'InvalidToolArgumentsError';
+    this.tool = tool;
+    this.issues = issues;
+  }
+}
+
+/**
+ * The arguments of a tool call, typed for its handler; throws InvalidToolArgumentsError if they do not fit
+ */
+export function parseToolArgs<T extends ToolName>(tool: T, args: unknown): ToolArgs<T> {
+  const result = TOOL_INPUT_SCHEMAS[tool].safeParse(args ?? {});
+  if (!result.success) {
+    throw new InvalidToolArgumentsError(tool, result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`));
+  }
+  return result.data as ToolArgs<T>;
+}
@@ -0,0 +1,363 @@
+/**
+ * JSON Schemas for the structuredContent each tool returns (Tool.outputSchema)
+ *
+ * MCP clients validate structuredContent against these, so only fields that
+ * every successful branch of a handler sets are required. Tools with two kinds
+ * of result (structured records or a native-format file) require one complete
+ * set or the other. Smaller nested objects are described rather than fully
+ * specified; they follow the shapes in the handlers. Errors are returned as
+ * isError text results and are not covered here.
+ */
+
+type JsonSchema = Record<string, unknown>;
+
+const string = (description?: string): JsonSchema => ({ type: 'string', ...(description ? { description } : {}) });
+const nullableString = (description?: string): JsonSchema => ({ type: ['string', 'null'], ...(description ? { description } : {}) });
+const number = (description?: string): JsonSchema => ({ type: 'number', ...(description ? { description } : {}) });
+const boolean = (description?: string): JsonSchema => ({ type: 'boolean', ...(description ? { description } : {}) });
+const object = (description: string): JsonSchema => ({ type: 'object', description });
+const array = (items: JsonSchema, description?: string): JsonSchema => ({ type: 'array', items, ...(description ? { description } : {}) });
+
+const SCHEMA_WARNINGS = array(
+  {
+    type: 'object',
+    properties: { source: string(), path: string(), message: string() },
+    required: ['source', 'path', 'message']
+  },
+  'Fields in SCB responses that did not match the expected schema and were tolerated'
+);
+
+function result(properties: Record<string, JsonSchema>, required: string[] = []) {
+  return {
+    type: 'object' as const,
+    properties: { ...properties, schema_warnings: SCHEMA_WARNINGS },
+    required
+  };
+}
+
+// A result that has all fields of one of the alternatives
+function eitherResult(properties: Record<string, JsonSchema>, alternatives: string[][]) {
+  return {
+    ...result(properties),
+    anyOf: alternatives.map(required => ({ required }))
+  };
+}
+
+const LANGUAGE = {
+  language_used: string('Language of labels, "sv" or "en"'),
+  language_warning: nullableString('Set when an unsupported language was asked for')
+};
+
+const DATABASE_INFO = object('Number of regions in the local region database (total, counties, municipalities)');
+
+const REGION_MATCH: JsonSchema = {
+  type: 'object',
+  properties: {
+    code: string(),
+    name: string(),
+    type: string('county, municipality or country'),
+    county: nullableString('County of a municipality'),
+    match_type: string()
+  },
+  required: ['code', 'name']
+};
+
+// Structured records as built by transformToStructuredData
+const STRUCTURED_DATA = {
+  query: {
+    type: 'object',
+    description: 'The request as answered',
+    properties: {
+      table_id: nullableString(),
+      selection: object('Selection as given, codes per variable'),
+      codelists: object('Codelist per variable'),
+      effective_selection: object('Codes per variable in the result'),
+      value_mapping: array(object('Value label given and the code it was sent as')),
+      saved_query_id: string(),
+      requested_at: string(),
+      ...LANGUAGE
+    },
+    required: ['selection']
+  },
+  data: {
+    description: 'The values: an array of records by default; a columnar object, pivot table or markdown string depending on response_format'
+  },
+  metadata: {
+    type: 'object',
+    properties: {
+      table_name: string(),
+      source: string(),
+      updated: string(),
+      data_shape: array(number(), 'Number of values per dimension'),
+      dimensions: array({
+        type: 'object',
+        properties: {
+          name: string(),
+          field: string('Prefix of the dimension\'s fields in records, e.g. region for region_code/region_name'),
+          label: string(),
+          role: nullableString(),
+          kind: string(),
+          values_count: number(),
+          notes: array(string())
+        },
+        required: ['name', 'field', 'label', 'values_count']
+      }),
+      units: object('Unit and decimals per measure'),
+      notes: array(string())
+    },
+    required: ['table_name', 'source']
+  },
+  summary: {
+    type: 'object',
+    properties: {
+      total_records: number(),
+      non_null_records: number(),
+      records_with_status: number(),
+      by_measure: { description: 'Statistics per measure: count, min, max, mean, median, sum for additive measures; first page only' },
+      has_data: boolean()
+    },
+    required: ['total_records', 'has_data']
+  }
+};
+const STRUCTURED_DATA_FIELDS = ['query', 'data', 'metadata', 'summary'];
+
+// Descriptor returned for native formats (csv, xlsx, px, ...); the file itself is an embedded resource in content
+const FORMATTED_DATA = {
+  description: string(),
+  format: string('Output format, e.g. csv or xlsx'),
+  mime_type: string(),
+  encoding: { type: 'string', enum: ['text', 'base64'], description: '"text" for text formats, "base64" for binary ones' },
+  bytes: number(),
+  resource_uri: string('URI of the embedded resource holding the file')
+};
+const FORMATTED_DATA_FIELDS = Object.keys(FORMATTED_DATA);
+
+const PAGE: JsonSchema = {
+  type: 'object',
+  description: 'Present when the result is paged',
+  properties: {
+    offset: number(),
+    returned: number(),
+    total: number(),
+    unit: { type: 'string', enum: ['records', 'rows'] },
+    has_more: boolean(),
+    next_cursor: nullableString('Pass as cursor to get the next page'),
+    note: string(),
+    warning: string()
+  },
+  required: ['offset', 'returned', 'total', 'unit', 'has_more', 'next_cursor']
+};
+
+const CACHE: JsonSchema = {
+  type: 'object',
+  description: 'Whether the data came from the data cache, and its age',
+  properties: { status: string(), fetched_at: string(), age_seconds: number() },
+  required: ['status', 'fetched_at', 'age_seconds']
+};
+
+export const TOOL_OUTPUT_SCHEMAS = {
+  scb_get_api_status: result({
+    api: object('API version, languages, max_data_cells, rate_limit, license and data_formats'),
+    current_usage: object('Requests made and remaining in the current rate limit window'),
+    metadata_cache: object('Hit/miss counts and size of the table metadata cache'),
+    data_cache: object('Hit/miss counts and size of the data cache'),
+    citation: array({ type: 'object', properties: { language: string(), text: string() } }),
+    tips: array(string())
+  }, ['api', 'current_usage', 'metadata_cache', 'data_cache', 'citation', 'tips']),
+
+  scb_search_tables: result({
+    query: object('search_term, category_filter, page_size, page_number and language'),
+    tables: array({
+      type: 'object',
+      properties: {
+        id: string(),
+        title: string(),
+        description: nullableString(),
+        period: { type: 'object', properties: { start: nullableString(), end: nullableString() } },
+        variables: array(string()),
+        updated: nullableString(),
+        source: nullableString(),
+        discontinued: boolean(),
+        category: nullableString()
+      },
+      required: ['id', 'title']
+    }),
+    pagination: object('current_page, total_pages, total_results and page_size'),
+    metadata: object('Result counts before and after the category filter')
+  }, ['query', 'tables', 'pagination', 'metadata']),
+
+  scb_get_table_info: result({
+    table_id: string(),
+    table_name: string(),
+    ...LANGUAGE,
+    dataset_info: object('source, updated and total_cells'),
+    variables: array({
+      type: 'object',
+      properties: { code: string(), label: string(), value_count: number() },
+      required: ['code', 'label', 'value_count']
+    }),
+    contacts: array(object('name, email and phone')),
+    notes: array(object('text and whether the note is mandatory'))
+  }, ['table_id', 'table_name', 'language_used', 'language_warning', 'dataset_info', 'variables', 'contacts', 'notes']),
+
+  scb_get_table_data: eitherResult({
+    ...STRUCTURED_DATA,
+    response_format: { type: 'string', enum: ['records', 'columnar', 'wide', 'markdown_table'] },
+    cache: CACHE,
+    pivot: object('The data pivoted according to layout; left out when the result is paged'),
+    page: PAGE,
+    ...FORMATTED_DATA
+  }, [[...STRUCTURED_DATA_FIELDS, 'response_format', 'cache'], FORMATTED_DATA_FIELDS]),
+
+  scb_check_usage: result({
+    usage: object('Requests made, remaining and reset time of the rate limit window'),
+    queue: object('Requests waiting for the rate limit'),
+    status: { type: 'string', enum: ['ok', 'warning', 'critical'] },
+    tips: array(string()),
+    api_info: object('API endpoint and version')
+  }, ['usage', 'queue', 'status', 'tips', 'api_info']),
+
+  scb_search_regions: result({
+    query: string(),
+    total_matches: number(),
+    regions: array({ ...REGION_MATCH, properties: { ...(REGION_MATCH.properties as object), usage_example: object('Selection using the code') } }),
+    matches: array(REGION_MATCH, 'Empty when nothing matched'),
+    message: string(),
+    ...LANGUAGE,
+    source: string(),
+    database_info: DATABASE_INFO,
+    sample_counties: array(REGION_MATCH),
+    sample_municipalities: array(REGION_MATCH),
+    tips: array(string())
+  }, ['query', 'language_used', 'language_warning', 'database_info', 'tips']),
+
+  scb_get_table_variables: result({
+    table_id: string(),
+    table_name: string(),
+    query: object('variable_filter and language'),
+    variables: array({
+      type: 'object',
+      properties: {
+        variable_code: string(),
+        variable_name: string(),
+        total_values: number(),
+        sample_values: array({ type: 'object', properties: { code: string(), label: string(), index: number() } }),
+        has_more: boolean(),
+        usage_example: object('Selections using this variable')
+      },
+      required: ['variable_code', 'variable_name', 'total_values']
+    }),
+    metadata: object('Variable counts, source and updated'),
+    error: string('Set when the table has no variables or variableName matched none'),
+    suggestion: string(),
+    available_variables: array({ type: 'object', properties: { code: string(), label: string() } })
+  }, ['table_id']),
+
+  scb_find_region_code: result({
+    query: string(),
+    matches: array(REGION_MATCH),
+    match_type: string('Where the matches come from: exact_matches, table_specific_matches, local_suggestions, ...'),
+    total_matches: number(),
+    primary_match: REGION_MATCH,
+    usage_example: object('Selection using the best match, keyed by the table\'s region variable'),
+    ...LANGUAGE,
+    source: string(),
+    source_table: object('id and name of the table the codes were checked against'),
+    database_info: DATABASE_INFO,
+    sample_regions: array(REGION_MATCH),
+    note: string(),
+    warning: string(),
+    error: string('Set when no region matched'),
+    suggestion: string(),
+    tips: array(string())
+  }, ['query', 'language_used', 'language_warning']),
+
+  scb_test_selection: result({
+    table_id: string(),
+    is_valid: boolean(),
+    ...LANGUAGE,
+    selection: object('The selection as given'),
+    selection_provided: boolean('False when the table\'s default selection applies'),
+    effective_selection: object('Default selection SCB applies, codes per variable'),
+    codelists: object('Codelist per variable'),
+    translated_selection: { type: ['object', 'null'], description: 'Selection with variable names and value labels translated to codes' },
+    variable_mapping: array(object('Variable given and the code it resolved to')),
+    value_mapping: array(object('Value label given and the code it resolved to')),
+    eliminated_variables: array(object('Optional variable left out of the selection')),
+    resolved_time_expressions: array(object('Time expression and the periods it resolved to')),
+    resolved_selection: { type: ['object', 'null'], description: 'Exact codes per variable after expanding expressions' },
+    cell_count: { type: ['number', 'null'] },
+    size_estimate: { type: ['object', 'null'], description: 'cell_count against max_data_cells, requests_needed and estimated response size in bytes and tokens for response_format' },
+    request: { type: ['object', 'null'], description: 'method, url and body scb_get_table_data will send' },
+    suggested_placement: object('SCB\'s default heading/stub layout'),
+    available_variables: array(object('code, label and value_count')),
+    errors: array(string()),
+    suggestions: array(string()),
+    message: string(),
+    next_step: string(),
+    tips: array(string())
+  }, ['table_id', 'is_valid', 'language_used', 'language_warning', 'codelists', 'next_step']),
+
+  scb_preview_data: result({
+    ...STRUCTURED_DATA,
+    data: array({ type: 'object' }, 'One record per value'),
+    preview_info: object('The limited selection actually fetched, codelists and SCB\'s suggested placement')
+  }, [...STRUCTURED_DATA_FIELDS, 'preview_info']),
+
+  scb_get_table_codelists: result({
+    table_id: string(),
+    query: object('variable_filter and language'),
+    variables: array({
+      type: 'object',
+      properties: {
+        variable_code: string(),
+        variable_name: string(),
+        codelists: array(object('id, label and type of a codelist')),
+        usage_example: { type: ['object', 'null'] }
+      },
+      required: ['variable_code', 'codelists']
+    }),
+    metadata: object('total_variables and variables_with_codelists'),
+    tips: array(string())
+  }, ['table_id', 'variables']),
+
+  scb_get_codelist: result({
+    codelist_id: string(),
+    codelist_name: string(),
+    type: string('Aggregation or Valueset'),
+    ...LANGUAGE,
+    elimination: object('Whether the variable can be left out, and the value used then'),
+    total_values: number(),
+    values: array({
+      type: 'object',
+      properties: { code: string(), label: string(), maps_from: array(string(), 'Original value codes this value groups') },
+      required: ['code', 'label']
+    }),
+    tips: array(string())
+  }, ['codelist_id', 'values']),
+
+  scb_save_query: result({
+    saved_query_id: nullableString(),
+    table_id: string(),
+    ...LANGUAGE,
+    selection: object('Codes per variable as stored by SCB'),
+    output_format: nullableString(),
+    usage_example: object('How to run the saved query')
+  }, ['saved_query_id', 'table_id']),
+
+  scb_get_saved_query: result({
+    saved_query_id: string(),
+    table_id: string(),
+    language: string(),
+    selection: object('Codes per variable'),
+    codelists: object('Codelist per variable'),
+    placement: { type: ['object', 'null'] },
+    output_format: nullableString(),
+    output_format_params: array(string())
+  }, ['saved_query_id', 'table_id']),
+
+  scb_run_saved_query: eitherResult({
+    ...STRUCTURED_DATA,
+    ...FORMATTED_DATA
+  }, [STRUCTURED_DATA_FIELDS, FORMATTED_DATA_FIELDS])
+};
@@ -109,26 +109,147 @@ export const TablesResponseSchema = z.object({
   }))
 });
 
+// Codelist reference as listed in dimension extensions of the table metadata
+// See: PxAPI-2.yml#/components/schemas/CodeListInformation
+export const CodeListInformationSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  type: z.enum(['Aggregation', 'Valueset']),
+  links: z.array(z.object({
+    rel: z.string(),
+    hreflang: z.string(),
+    href: z.string()
+  })).optional()
+});
+
+// Response from /codelists/{id}
+// See: PxAPI-2.yml#/components/schemas/CodeListResponse
+export const CodeListResponseSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  language: z.string(),
+  languages: z.array(z.string()).optional(),
+  elimination: z.boolean().optional(),
+  eliminationValueCode: z.string().optional(),
+  type: z.enum(['Aggregation', 'Valueset']),
+  values: z.array(z.object({
+    code: z.string(),
+    label: z.string(),
+    valueMap: z.array(z.string()),
+    notes: z.array(z.object({
+      text: z.string(),
+      mandatory: z.boolean().optional()
+    })).optional()
+  })),
+  links: z.array(z.object({
+    rel: z.string(),
+    hreflang: z.string(),
+    href: z.string()
+  }))
+});
+
+// Response from /tables/{id}/defaultselection - the selection SCB applies when none is given
+// See: PxAPI-2.yml#/components/schemas/SelectionResponse
+export const SelectionResponseSchema = z.object({
+  language: z.string(),
+  selection: z.array(z.object({
+    variableCode: z.string(),
+    codeList: z.string().nullable().optional(),
+    valueCodes: z.array(z.string()).optional()
+  })),
+  placement: z.object({
+    heading: z.array(z.string()).optional(),
+    stub: z.array(z.string()).optional()
+  }).optional(),
+  links: z.array(z.object({
+    rel: z.string(),
+    hreflang: z.string(),
+    href: z.string()
+  }))
+});
+
+// Saved query as stored by /savedqueries
+// See: PxAPI-2.yml#/components/schemas/SavedQuery
+export const SavedQuerySchema = z.object({
+  id: z.string().optional(),
+  tableId: z.string(),
+  language: z.string(),
+  selection: z.object({
+    selection: z.array(z.object({
+      variableCode: z.string(),
+      codeList: z.string().nullable().optional(),
+      valueCodes: z.array(z.string()).optional()
+    })),
+    placement: z.object({
+      heading: z.array(z.string()).optional(),
+      stub: z.array(z.string()).optional()
+    }).optional()
+  }),
+  outputFormat: z.string().optional(),
+  outputFormatParams: z.array(z.string()).optional()
+});
+
+// JSON-stat 2.0 link: relation name -> linked resources
+// See: https://json-stat.org/full/#link
+const JsonStatLinkSchema = z.record(z.array(z.object({
+  type: z.string().optional(),
+  href: z.string().optional(),
+  class: z.string().optional(),
+  label: z.string().optional()
+}).passthrough()));
+
+// Unit of a measure (category of the metric dimension); SCB puts the unit name in `base`
+// See: https://json-stat.org/full/#unit
+export const JsonStatUnitSchema = z.object({
+  label: z.string().optional(),
+  base: z.string().optional(),
+  symbol: z.string().optional(),
+  position: z.enum(['start', 'end']).optional(),
+  decimals: z.number().optional()
+}).passthrough();
+
+// Full JSON-stat 2.0 dataset as returned with outputFormat=json-stat2
+// See: https://json-stat.org/full/
 export const DatasetSchema = z.object({
   version: z.literal('2.0'),
   class: z.literal('dataset'),
+  href: z.string().optional(),
   id: z.array(z.string()),
   label: z.string(),
   source: z.string().optional(),
   updated: z.string().optional(),
   size: z.array(z.number()),
+  // Which dimensions hold time, geography and measures
+  role: z.object({
+    time: z.array(z.string()).optional(),
+    geo: z.array(z.string()).optional(),
+    metric: z.array(z.string()).optional()
+  }).optional(),
   dimension: z.record(z.object({
     label: z.string(),
+    note: z.array(z.string()).optional(),
+    link: JsonStatLinkSchema.optional(),
     category: z.object({
       index: z.record(z.number()),
-      label: z.record(z.string())
+      label: z.record(z.string()),
+      note: z.record(z.array(z.string())).optional(),
+      // Measures only: unit and decimals per category
+      unit: z.record(JsonStatUnitSchema).optional(),
+      // Hierarchies: parent code -> child codes
+      child: z.record(z.array(z.string())).optional()
     }),
     extension: z.object({
       elimination: z.boolean().optional(),
-      eliminationValueCode: z.string().optional()
+      eliminationValueCode: z.string().optional(),
+      // Alternative groupings (valuesets/aggregations) available for this variable
+      codeLists: z.array(CodeListInformationSchema).optional()
     }).optional()
   })),
   value: z.array(z.number().nullable()).nullable().optional(),
+  // Cell status symbols (e.g. ".." for suppressed values): one for all cells, per cell, or by cell index
+  status: z.union([z.string(), z.array(z.string().nullable()), z.record(z.string())]).optional(),
+  note: z.array(z.string()).optional(),
+  link: JsonStatLinkSchema.optional(),
   extension: z.object({
     px: z.record(z.any()).optional(),
     contact: z.array(z.object({
@@ -147,6 +268,11 @@ export type ConfigResponse = z.infer<typeof ConfigResponseSchema>;
 export type FolderResponse = z.infer<typeof FolderResponseSchema>;
 export type TablesResponse = z.infer<typeof TablesResponseSchema>;
 export type Dataset = z.infer<typeof DatasetSchema>;
+export type JsonStatUnit = z.infer<typeof JsonStatUnitSchema>;
+export type CodeListInformation = z.infer<typeof CodeListInformationSchema>;
+export type CodeListResponse = z.infer<typeof CodeListResponseSchema>;
+export type SelectionResponse = z.infer<typeof SelectionResponseSchema>;
+export type SavedQuery = z.infer<typeof SavedQuerySchema>;
 
 // Rate limiting types
 export interface RateLimitInfo {
@@ -154,4 +280,90 @@ export interface RateLimitInfo {
   resetTime: Date;
   maxCalls: number;
   timeWindow: number;
-}
\ No newline at end of file
+}
+
+// POST body for /tables/{id}/data
+// See: PxAPI-2.yml#/components/schemas/VariablesSelection
+export interface VariableSelection {
+  variableCode: string;
+  valueCodes: string[];
+  codeList?: string;
+}
+
+// Which variables go in the heading (columns) and which in the stub (rows)
+// See: PxAPI-2.yml#/components/schemas/VariablePlacementType
+export interface Placement {
+  heading?: string[];
+  stub?: string[];
+}
+
+export interface VariablesSelection {
+  selection: VariableSelection[];
+  placement?: Placement;
+}
+
+// Result of checking a selection against table metadata
+export interface SelectionValidation {
+  isValid: boolean;
+  errors: string[];
+  suggestions: string[];
+  translatedSelection?: Record<string, string[]>;
+  // Codelists keyed by resolved variable code
+  translatedCodelists?: Record<string, string>;
+  // Selection keys that were mapped to a different dimension code
+  resolvedVariables?: Array<{ key: string; code: string; label: string; score: number }>;
+  // Explicit codes selected per variable, with expressions like TOP(5) expanded
+  expandedSelection?: Record<string, string[]>;
+  // Number of data cells the expanded selection covers
+  cellCount?: number;
+  // Optional variables left out of the selection and how SCB eliminates them
+  eliminatedVariables?: Array<{
+    variable: string;
+    label: string;
+    method: 'elimination_value' | 'sum';
+    eliminationValueCode: string | null;
+    eliminationValueLabel: string | null;
+  }>;
+  // Values given by label ("kvinnor", "Göteborg") and the codes they resolved to
+  resolvedValueLabels?: Array<{ variable: string; value: string; code: string; label: string }>;
+  // Relative time values ("latest", "last 5 years", ...) and the codes they resolved to
+  resolvedTimeExpressions?: Array<{ variable: string; expression: string; codes: string[] }>;
+}
+
+// Options for data requests beyond the plain variable selection
+export interface TableDataOptions {
+  // Codelist id per variable code, e.g. { Region: 'agg_RegionNUTS2_2008' }
+  codelists?: Record<string, string>;
+  // Heading/stub layout, applied upstream for tabular output formats
+  placement?: Placement;
+  // Cache the dataset even if it fills the whole data cache, so later pages need no new request
+  keepForPaging?: boolean;
+}
+
+// A dataset together with where it came from
+export interface TableDataResult {
+  dataset: Dataset;
+  // Values given by label and the codes they were sent as
+  resolvedValueLabels: NonNullable<SelectionValidation['resolvedValueLabels']>;
+  cache: {
+    status: 'hit' | 'miss';
+    fetchedAt: Date;
+    ageSeconds: number;
+  };
+}
+
+// Default selection flattened to the same shape as user selections
+export interface DefaultSelection {
+  selection: Record<string, string[]>;
+  codelists: Record<string, string>;
+  placement: { heading: string[]; stub: string[] };
+}
+
+// Data in one of SCB's native output formats, passed through unparsed
+export interface FormattedData {
+  format: string;
+  mimeType: string;
+  encoding: 'text' | 'base64';
+  body: string;
+  bytes: number;
+}
@@ -0,0 +1,95 @@
+/**
+ * Resolution of values given by label ("kvinnor", "Göteborg") to value codes
+ *
+ * Values are matched against the variable's category labels in the requested
+ * language, ignoring case and diacritics and tolerating small typos. SCB often
+ * prefixes region labels with their code ("1480 Göteborg"); the prefix is
+ * ignored. Region names are also looked up in the regions database.
+ */
+
+import { normalizeName, levenshtein } from './variable-resolution.js';
+import { searchRegions, normalizeForSearch } from './regions.js';
+
+export interface ScoredValue {
+  code: string;
+  label: string;
+  score: number;
+}
+
+export type ValueLabelResolution =
+  | { status: 'resolved'; code: string; label: string; score: number }
+  | { status: 'ambiguous'; candidates: ScoredValue[] }
+  | { status: 'unmatched' };
+
+const MIN_SCORE = 0.6;
+const AMBIGUITY_MARGIN = 0.05;
+
+// Label words that mean the same thing across languages (normalized)
+const LABEL_SYNONYMS: string[][] = [
+  ['man', 'men', 'male', 'males'],
+  ['kvinnor', 'kvinna', 'women', 'woman', 'female', 'females'],
+  ['totalt', 'total', 'tot', 'badakonen', 'bothsexes', 'samtliga']
+];
+
+/**
+ * Resolve a value to a code by its label. labels maps code -> label.
+ */
+export function resolveValueLabel(
+  value: string,
+  labels: Record<string, string>,
+  options: { regions?: boolean } = {}
+): ValueLabelResolution {
+  const normalizedValue = normalizeName(value);
+  if (!normalizedValue) return { status: 'unmatched' };
+
+  const scored = Object.entries(labels)
+    .map(([code, label]) => ({ code, label, score: scoreLabel(normalizedValue, code, label) }))
+    .filter(candidate => candidate.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score);
+
+  if (scored.length === 0 && options.regions) {
+    scored.push(...matchRegions(value, labels));
+  }
+
+  const [best] = scored;
+  if (!best) return { status: 'unmatched' };
+
+  const contenders = scored.filter(candidate => candidate.score >= best.score - AMBIGUITY_MARGIN);
+  if (contenders.length > 1) {
+    return { status: 'ambiguous', candidates: contenders.slice(0, 5) };
+  }
+
+  return { status: 'resolved', ...best };
+}
+
+function scoreLabel(normalizedValue: string, code: string, label: string): number {
+  // "1480 Göteborg" -> "Göteborg"
+  const bareLabel = label.startsWith(`${code} `) ? label.slice(code.length + 1) : label;
+  const normalizedLabel = normalizeName(bareLabel);
+  if (!normalizedLabel) return 0;
+
+  if (normalizedLabel === normalizedValue) return 1;
+
+  const group = LABEL_SYNONYMS.find(words => words.includes(normalizedValue));
+  if (group && group.includes(normalizedLabel)) return 0.9;
+
+  // "Stockholm" -> "Stockholms län", "gymnasial" -> "gymnasial utbildning"
+  if (normalizedValue.length >= 4 && normalizedLabel.startsWith(normalizedValue)) {
+    return 0.6 + 0.3 * (normalizedValue.length / normalizedLabel.length);
+  }
+
+  const similarity = 1 - levenshtein(normalizedValue, normalizedLabel) / Math.max(normalizedValue.length, normalizedLabel.length);
+  return similarity >= 0.8 ? 0.85 * similarity : 0;
+}
+
+function matchRegions(value: string, labels: Record<string, string>): ScoredValue[] {
+  const normalizedValue = normalizeForSearch(value);
+  return searchRegions(value)
+    .filter(region => labels[region.code] !== undefined)
+    .map(region => ({
+      code: region.code,
+      label: labels[region.code],
+      score: normalizeForSearch(region.name) === normalizedValue ? 0.8 : 0.65
+    }))
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,143 @@
+/**
+ * Resolution of user-supplied variable names against a table's dimensions
+ *
+ * Selection keys like "län", "kommun", "year" or "sni" are scored against each
+ * dimension's code and its Swedish and English labels, ignoring case and
+ * diacritics. A key that fits several dimensions equally well is reported as
+ * ambiguous rather than mapped to one of them.
+ */
+
+export interface VariableCandidate {
+  code: string;
+  // Labels in every language we have metadata for
+  labels: string[];
+}
+
+export interface ScoredVariable {
+  code: string;
+  label: string;
+  score: number;
+}
+
+export type VariableResolution =
+  | { status: 'resolved'; code: string; label: string; score: number }
+  | { status: 'ambiguous'; candidates: ScoredVariable[] }
+  | { status: 'unmatched'; candidates: ScoredVariable[] };
+
+// Scores at or above this resolve a key; below it the best matches are only suggestions
+const MIN_SCORE = 0.5;
+// Candidates this close to the best score make a key ambiguous
+const AMBIGUITY_MARGIN = 0.05;
+
+// Words that name the same concept across tables and languages (normalized)
+const CONCEPT_SYNONYMS: string[][] = [
+  ['tid', 'time', 'ar', 'year', 'manad', 'month', 'kvartal', 'quarter', 'vecka', 'week', 'period'],
+  ['region', 'lan', 'county', 'kommun', 'municipality', 'omrade', 'area', 'riket'],
+  ['kon', 'sex', 'gender'],
+  ['alder', 'age'],
+  ['contentscode', 'tabellinnehall', 'contents', 'observations', 'measure', 'matt'],
+  ['utbildningsniva', 'utbildning', 'education'],
+  ['sysselsattning', 'employment'],
+  ['inkomst', 'income'],
+  ['familjetyp', 'familytype'],
+  ['civilstand', 'maritalstatus'],
+  ['yrke', 'occupation'],
+  ['naringsgren', 'sni', 'industry']
+];
+
+/**
+ * Lowercase, strip diacritics and drop everything but letters and digits
+ */
+export function normalizeName(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Resolve one selection key to a dimension code
+ */
+export function resolveVariableName(key: string, candidates: VariableCandidate[]): VariableResolution {
+  const exact = candidates.find(candidate => candidate.code === key);
+  if (exact) {
+    return { status: 'resolved', code: exact.code, label: exact.labels[0] || exact.code, score: 1 };
+  }
+
+  const scored = candidates
+    .map(candidate => ({ code: candidate.code, label: candidate.labels[0] || candidate.code, score: scoreVariable(key, candidate) }))
+    .filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  const [best] = scored;
+  if (!best || best.score < MIN_SCORE) {
+    return { status: 'unmatched', candidates: scored.slice(0, 3) };
+  }
+
+  const contenders = scored.filter(candidate => candidate.score >= best.score - AMBIGUITY_MARGIN);
+  if (contenders.length > 1) {
+    return { status: 'ambiguous', candidates: contenders };
+  }
+
+  return { status: 'resolved', ...best };
+}
+
+function scoreVariable(key: string, candidate: VariableCandidate): number {
+  const normalizedKey = normalizeName(key);
+  if (!normalizedKey) return 0;
+
+  let score = 0;
+  const words = new Set<string>();
+
+  for (const form of [candidate.code, ...candidate.labels]) {
+    const normalizedForm = normalizeName(form);
+    if (!normalizedForm) continue;
+
+    if (normalizedForm === normalizedKey) {
+      score = Math.max(score, 0.95);
+    } else if (normalizedKey.length >= 3 && (normalizedForm.startsWith(normalizedKey) || normalizedKey.startsWith(normalizedForm))) {
+      // "sni" -> SNI2007, "yrke" -> Yrke2012
+      score = Math.max(score, 0.8);
+    }
+
+    for (const word of form.split(/[^\p{L}\p{N}]+/u).map(normalizeName)) {
+      if (word.length >= 3 && !/^\d+$/.test(word)) words.add(word);
+    }
+    words.add(normalizedForm);
+
+    // Typos: close in edit distance
+    const similarity = 1 - levenshtein(normalizedKey, normalizedForm) / Math.max(normalizedKey.length, normalizedForm.length);
+    if (similarity >= 0.75) {
+      score = Math.max(score, 0.7 * similarity);
+    }
+  }
+
+  if (words.has(normalizedKey)) {
+    score = Math.max(score, 0.75);
+  }
+
+  // Same concept under another name, e.g. "county" for Region or "year" for Tid
+  const group = CONCEPT_SYNONYMS.find(synonyms => synonyms.includes(normalizedKey));
+  if (group && group.some(word => words.has(word))) {
+    score = Math.max(score, 0.6);
+  }
+
+  return score;
+}
+
+export function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
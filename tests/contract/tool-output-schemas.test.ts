@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CallToolResultSchema, type ContentBlock, type TextContent } from '@modelcontextprotocol/sdk/types.js';
+import { SCBMCPServer } from '../../src/index';
+
+function isTextContent(content: ContentBlock): content is TextContent {
+  return content.type === 'text';
+}
+
+// Text blocks of a tool result (callTool leaves content untyped, since it also accepts pre-2024 results)
+function texts(result: unknown): string[] {
+  return CallToolResultSchema.parse(result).content.filter(isTextContent).map(content => content.text);
+}
+
+describe('tool output schemas', () => {
+  const mcpServer = new SCBMCPServer();
+  const client = new Client({ name: 'contract-test', version: '1.0.0' });
+
+  beforeAll(async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await mcpServer.connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  it('declares an object outputSchema for every tool', async () => {
+    const { tools } = await client.listTools();
+
+    for (const tool of tools) {
+      expect(tool.outputSchema?.type, tool.name).toBe('object');
+    }
+  });
+
+  it('returns structured content with a short text summary', async () => {
+    const result = await client.callTool({ name: 'scb_find_region_code', arguments: { query: 'Göteborg' } });
+
+    expect(result.structuredContent).toMatchObject({ query: 'Göteborg', primary_match: { code: '1480' } });
+    expect(texts(result)[0]).toContain('Göteborg (1480)');
+  });
+
+  it('matches the schema in every local branch', async () => {
+    for (const [name, args] of [
+      ['scb_search_regions', { query: 'Kungälv' }],
+      ['scb_search_regions', { query: 'xyzzy' }],
+      ['scb_find_region_code', { query: 'xyzzy' }],
+      ['scb_check_usage', {}]
+    ] as const) {
+      const result = await client.callTool({ name, arguments: args });
+      expect(result.isError, name).toBeFalsy();
+      expect(result.structuredContent, name).toBeDefined();
+    }
+  });
+
+  it('rejects page limits that are not positive integers before calling SCB', async () => {
+    for (const args of [{ max_records: 0 }, { max_tokens: 2.5 }, { max_records: -10 }]) {
+      const result = await client.callTool({ name: 'scb_get_table_data', arguments: { tableId: 'TAB638', ...args } });
+      expect(result.isError).toBe(true);
+      expect(texts(result)[0]).toContain('invalid_page_limit');
+    }
+  });
+
+  it('rejects an unknown response_format before calling SCB', async () => {
+    const result = await client.callTool({ name: 'scb_get_table_data', arguments: { tableId: 'TAB638', response_format: 'table' } });
+
+    expect(result.isError).toBe(true);
+    expect(texts(result)[0]).toContain('invalid_response_format');
+  });
+
+  it('rejects arguments of the wrong type before calling SCB', async () => {
+    const result = await client.callTool({ name: 'scb_get_table_data', arguments: { tableId: 'TAB638', selection: { Tid: '2023' } } });
+
+    expect(result.isError).toBe(true);
+    expect(texts(result)[0]).toContain('invalid_arguments');
+    expect(texts(result)[0]).toContain('selection.Tid');
+  });
+});
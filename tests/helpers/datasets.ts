@@ -0,0 +1,37 @@
+import type { Dataset } from '../../src/types';
+
+type Dimension = Dataset['dimension'][string];
+
+/**
+ * A dimension with its codes in index order. Labels default to the codes themselves.
+ */
+export function dimension(
+  label: string,
+  codes: string[],
+  options: { labelOf?: (code: string) => string; category?: Partial<Dimension['category']> } = {}
+): Dimension {
+  const labelOf = options.labelOf ?? ((code: string) => code);
+  return {
+    label,
+    category: {
+      index: Object.fromEntries(codes.map((code, i) => [code, i])),
+      label: Object.fromEntries(codes.map(code => [code, labelOf(code)])),
+      ...options.category
+    }
+  };
+}
+
+/**
+ * A JSON-stat 2.0 dataset over the given dimensions, in the order given; id and size follow from them
+ */
+export function makeDataset(dimensions: Record<string, Dimension>, fields: Partial<Dataset> = {}): Dataset {
+  return {
+    version: '2.0',
+    class: 'dataset',
+    id: Object.keys(dimensions),
+    label: 'Test',
+    size: Object.values(dimensions).map(dim => Object.keys(dim.category.index).length),
+    dimension: dimensions,
+    ...fields
+  };
+}
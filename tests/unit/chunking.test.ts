@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { countCells, splitSelection, mergeDatasets } from '../../src/chunking';
+import type { Dataset } from '../../src/types';
+import { dimension, makeDataset } from '../helpers/datasets';
+
+function populationDataset(regions: string[], years: string[], valueOf: (r: string, y: string) => number): Dataset {
+  return makeDataset({
+    Region: dimension('region', regions, { labelOf: r => `Region ${r}` }),
+    Tid: dimension('år', years)
+  }, {
+    label: 'Folkmängd',
+    value: regions.flatMap(r => years.map(y => valueOf(r, y)))
+  });
+}
+
+describe('splitSelection', () => {
+  it('splits along the largest dimension to stay under the limit', () => {
+    const selection = { Region: ['01', '03', '04', '05'], Tid: ['2023', '2024'] };
+    const chunks = splitSelection(selection, 4);
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks.every(chunk => countCells(chunk) <= 4)).toBe(true);
+    expect(chunks.flatMap(chunk => chunk.Region)).toEqual(selection.Region);
+  });
+
+  it('keeps splitting when one value of the largest dimension is too big', () => {
+    const chunks = splitSelection({ Region: ['01', '03', '04'], Tid: ['2022', '2023'] }, 1);
+
+    expect(chunks).toHaveLength(6);
+  });
+});
+
+describe('mergeDatasets', () => {
+  it('reassembles chunked datasets in the original order', () => {
+    const valueOf = (r: string, y: string) => Number(r) * 10000 + Number(y);
+    const full = populationDataset(['01', '03', '04'], ['2023', '2024'], valueOf);
+    const merged = mergeDatasets([
+      populationDataset(['01', '03'], ['2023', '2024'], valueOf),
+      populationDataset(['04'], ['2023', '2024'], valueOf)
+    ]);
+
+    expect(merged.size).toEqual(full.size);
+    expect(merged.value).toEqual(full.value);
+    expect(merged.dimension.Region.category.index).toEqual(full.dimension.Region.category.index);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { DataCache, dataCacheKey } from '../../src/data-cache';
+import type { Dataset } from '../../src/types';
+import { dimension, makeDataset } from '../helpers/datasets';
+
+function yearsDataset(values: number[], updated?: string): Dataset {
+  return makeDataset({
+    Tid: dimension('år', values.map((_, i) => String(2020 + i)))
+  }, { label: 'Folkmängd', updated, value: values });
+}
+
+describe('dataCacheKey', () => {
+  it('ignores variable and code order', () => {
+    const a = dataCacheKey('TAB638', 'sv', { Region: ['01', '00'], Tid: ['2024'] });
+    const b = dataCacheKey('TAB638', 'sv', { Tid: ['2024'], Region: ['00', '01', '00'] });
+    expect(a).toBe(b);
+    expect(dataCacheKey('TAB638', 'en', { Region: ['00', '01'], Tid: ['2024'] })).not.toBe(a);
+  });
+});
+
+describe('DataCache', () => {
+  it('drops entries fetched before the latest update', () => {
+    const cache = new DataCache(1024 * 1024);
+    cache.set('k', 'TAB638', yearsDataset([1, 2], '2025-01-01T08:00:00Z'));
+
+    expect(cache.get('k', '2025-01-01T08:00:00Z')).not.toBeNull();
+    expect(cache.get('k', '2025-03-01T08:00:00Z')).toBeNull();
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1, invalidations: 1, entries: 0 });
+  });
+
+  it('drops entries when a listing reports an update, whatever the case of the table id', () => {
+    const cache = new DataCache(1024 * 1024);
+    cache.set('k', 'TAB638', yearsDataset([1, 2], '2025-01-01T08:00:00Z'));
+
+    cache.noteTableUpdated('tab638', '2025-03-01T08:00:00Z');
+    expect(cache.get('k')).toBeNull();
+    expect(cache.getStats().invalidations).toBe(1);
+  });
+
+  it('keeps datasets that fill most of the cache only for paged results', () => {
+    const entryBytes = Buffer.byteLength(JSON.stringify(yearsDataset([1, 2, 3])));
+    const cache = new DataCache(entryBytes + 10);
+    cache.set('a', 'TAB1', yearsDataset([1, 2, 3]));
+    cache.set('b', 'TAB1', yearsDataset([1, 2, 3]), undefined, true);
+
+    expect(cache.get('a')).toBeNull();
+    expect(cache.get('b')).not.toBeNull();
+  });
+
+  it('evicts the least recently used entries to stay within its memory budget', () => {
+    const entryBytes = Buffer.byteLength(JSON.stringify(yearsDataset([1, 2, 3])));
+    const cache = new DataCache(entryBytes * 2);
+    cache.set('a', 'TAB1', yearsDataset([1, 2, 3]));
+    cache.set('b', 'TAB1', yearsDataset([4, 5, 6]));
+    cache.get('a');
+    cache.set('c', 'TAB1', yearsDataset([7, 8, 9]));
+
+    expect(cache.get('a')).not.toBeNull();
+    expect(cache.get('b')).toBeNull();
+    expect(cache.getStats().bytes).toBeLessThanOrEqual(entryBytes * 2);
+  });
+});
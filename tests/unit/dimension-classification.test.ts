@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { classifyDimensions, findDimension } from '../../src/dimension-classification';
+import { dimension, makeDataset } from '../helpers/datasets';
+
+describe('classifyDimensions', () => {
+  it('uses JSON-stat roles first', () => {
+    const dataset = makeDataset({
+      Period: dimension('period', ['2023', '2024']),
+      Lan: dimension('område', ['01', '03']),
+      Matt: dimension('mått', ['A'])
+    }, { role: { time: ['Period'], geo: ['Lan'], metric: ['Matt'] } });
+
+    expect(classifyDimensions(dataset)).toEqual({ Period: 'time', Lan: 'geo', Matt: 'measure' });
+  });
+
+  it('falls back on codes and labels without roles', () => {
+    const dataset = makeDataset({
+      Tid: dimension('år', ['2023', '2024']),
+      Region: dimension('region', ['00', '01']),
+      ContentsCode: dimension('tabellinnehåll', ['BE0101N1']),
+      Kon: dimension('kön', ['1', '2'])
+    });
+
+    expect(classifyDimensions(dataset)).toEqual({ Tid: 'time', Region: 'geo', ContentsCode: 'measure', Kon: 'other' });
+  });
+
+  it('recognizes dimensions by the shape of their codes', () => {
+    const dataset = makeDataset({
+      Manad: dimension('redovisningsperiod', ['2024M01', '2024M02', '2024M03']),
+      Kommun: dimension('område', ['0114', '0180', '1480']),
+      Uppgift: dimension('uppgift', ['X1'], { category: { unit: { X1: { base: 'kr', decimals: 0 } } } }),
+      SNI: dimension('näringsgren', ['01', '02', '03'])
+    });
+
+    expect(classifyDimensions(dataset)).toEqual({ Manad: 'time', Kommun: 'geo', Uppgift: 'measure', SNI: 'other' });
+    expect(findDimension(dataset, 'geo')).toBe('Kommun');
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { Response } from 'node-fetch';
+import {
+  BadSelectionError,
+  NotFoundError,
+  RateLimitedError,
+  TooManyCellsError,
+  UpstreamUnavailableError,
+  errorFromResponse,
+  parseProblemDetails
+} from '../../src/errors';
+
+const URL = 'https://statistikdatabasen.scb.se/api/v2/tables/TAB0000/metadata';
+
+function problemResponse(status: number, problem: object, statusText = ''): Response {
+  return new Response(JSON.stringify(problem), {
+    status,
+    statusText,
+    headers: { 'Content-Type': 'application/problem+json' }
+  });
+}
+
+describe('parseProblemDetails', () => {
+  it('reads problem+json bodies and ignores anything else', () => {
+    expect(parseProblemDetails('{"type":"about:blank","title":"Not Found","status":404}'))
+      .toEqual({ type: 'about:blank', title: 'Not Found', status: 404 });
+    expect(parseProblemDetails('<!DOCTYPE html><html></html>')).toBeUndefined();
+    expect(parseProblemDetails('[1,2]')).toBeUndefined();
+  });
+});
+
+describe('errorFromResponse', () => {
+  it('maps statuses to error classes and keeps the full problem details', async () => {
+    const problem = { title: 'Table not found', status: 404, detail: 'No table with id TAB0000' };
+    const error = await errorFromResponse(problemResponse(404, problem), URL);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.status).toBe(404);
+    expect(error.problem).toEqual(problem);
+    expect(error.url).toBe(URL);
+    expect(error.retryable).toBe(false);
+    expect(error.message).toContain('No table with id TAB0000');
+  });
+
+  it('marks rate limits and server errors as retryable', async () => {
+    const limited = await errorFromResponse(problemResponse(429, { title: 'Too Many Requests' }), URL, { retryAfterMs: 10000 });
+    expect(limited).toBeInstanceOf(RateLimitedError);
+    expect(limited.retryable).toBe(true);
+    expect((limited as RateLimitedError).retryAfterMs).toBe(10000);
+
+    const unavailable = await errorFromResponse(new Response('<html>Bad Gateway</html>', { status: 502, statusText: 'Bad Gateway' }), URL);
+    expect(unavailable).toBeInstanceOf(UpstreamUnavailableError);
+    expect(unavailable.retryable).toBe(true);
+    expect(unavailable.problem).toBeUndefined();
+  });
+
+  it('treats 403 as too many cells and 400 as a bad selection', async () => {
+    const tooMany = await errorFromResponse(problemResponse(403, { title: 'Forbidden' }), URL, { maxCells: 150000 });
+    expect(tooMany).toBeInstanceOf(TooManyCellsError);
+    expect(tooMany.message).toContain('150000');
+
+    const bad = await errorFromResponse(problemResponse(400, { title: 'Bad Request', detail: 'Unknown variable Foo' }), URL);
+    expect(bad).toBeInstanceOf(BadSelectionError);
+    expect(bad.message).toContain('Unknown variable Foo');
+  });
+});
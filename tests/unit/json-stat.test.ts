@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { cellStatus, measureUnits } from '../../src/json-stat';
+import { mergeDatasets } from '../../src/chunking';
+import { SCBApiClient } from '../../src/api-client';
+import type { Dataset } from '../../src/types';
+import { dimension, makeDataset } from '../helpers/datasets';
+
+function incomeDataset(regions: string[], status?: Dataset['status']): Dataset {
+  return makeDataset({
+    Region: dimension('region', regions, { labelOf: r => `Region ${r}` }),
+    ContentsCode: dimension('tabellinnehåll', ['HE0110K1'], {
+      labelOf: () => 'Medelinkomst',
+      category: { unit: { HE0110K1: { base: 'tkr', decimals: 1 } } }
+    })
+  }, {
+    label: 'Medelinkomst',
+    role: { geo: ['Region'], metric: ['ContentsCode'] },
+    value: regions.map((_, i) => (i === 1 ? null : 300 + i)),
+    status
+  });
+}
+
+describe('cellStatus', () => {
+  it('reads every JSON-stat status form', () => {
+    expect(cellStatus('..', 3)).toBe('..');
+    expect(cellStatus([null, '..'], 1)).toBe('..');
+    expect(cellStatus([null, '..'], 0)).toBeNull();
+    expect(cellStatus({ '1': '..' }, 1)).toBe('..');
+    expect(cellStatus(undefined, 1)).toBeNull();
+  });
+});
+
+describe('measureUnits', () => {
+  it('reads unit and decimals per measure', () => {
+    expect(measureUnits(incomeDataset(['01']))).toEqual({
+      HE0110K1: { label: 'Medelinkomst', unit: 'tkr', decimals: 1 }
+    });
+  });
+});
+
+describe('transformToStructuredData', () => {
+  it('keeps suppressed cells with their status and reports units and roles', () => {
+    const client = new SCBApiClient();
+    const result = client.transformToStructuredData(incomeDataset(['01', '03'], { '1': '..' }));
+
+    expect(result.data).toHaveLength(2);
+    expect(result.data[1]).toMatchObject({ region_code: '03', value: null, status: '..' });
+    expect(result.data[0].status).toBeUndefined();
+    expect(result.metadata.units.HE0110K1.decimals).toBe(1);
+    expect(result.metadata.dimensions.map((d: any) => d.role)).toEqual(['geo', 'metric']);
+  });
+});
+
+describe('transformToStructuredData periods', () => {
+  it('adds typed period fields for the time dimension', () => {
+    const dataset = makeDataset({
+      Tid: dimension('månad', ['2024M01', '2024M02'])
+    }, { label: 'Arbetslöshet', role: { time: ['Tid'] }, value: [8.1, 8.4] });
+
+    const result = new SCBApiClient().transformToStructuredData(dataset);
+
+    expect(result.data[1]).toMatchObject({
+      period_code: '2024M02',
+      period_start: '2024-02-01',
+      period_end: '2024-02-29',
+      frequency: 'monthly'
+    });
+  });
+});
+
+describe('transformToStructuredData field names', () => {
+  it('gives a second dimension of the same kind its own fields', () => {
+    const counties: Record<string, string> = { '01': 'Stockholms län', '03': 'Uppsala län' };
+    const dataset = makeDataset({
+      Region: dimension('kommun', ['0180'], { labelOf: () => 'Stockholm' }),
+      Lan: dimension('arbetsställets län', ['01', '03'], { labelOf: code => counties[code] }),
+      Tid: dimension('år', ['2024'])
+    }, { label: 'Pendling', role: { geo: ['Region', 'Lan'], time: ['Tid'] }, value: [100, 20] });
+
+    const result = new SCBApiClient().transformToStructuredData(dataset);
+
+    expect(result.metadata.dimensions.map((d: any) => d.field)).toEqual(['region', 'lan', 'period']);
+    expect(result.data.map(record => record.lan_code)).toEqual(['01', '03']);
+    expect(result.data[1]).toMatchObject({ region_code: '0180', lan_name: 'Uppsala län', period_code: '2024', value: 20 });
+  });
+});
+
+describe('mergeDatasets', () => {
+  it('carries status symbols over to the merged cells', () => {
+    const merged = mergeDatasets([incomeDataset(['01', '03'], { '1': '..' }), incomeDataset(['05', '06'], ['p', null])]);
+
+    expect(cellStatus(merged.status, 1)).toBe('..');
+    expect(cellStatus(merged.status, 2)).toBe('p');
+    expect(cellStatus(merged.status, 3)).toBeNull();
+    expect(merged.dimension.ContentsCode.category.unit?.HE0110K1.base).toBe('tkr');
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { MetadataCache } from '../../src/metadata-cache';
+import type { CodeListResponse, Dataset } from '../../src/types';
+import { dimension, makeDataset } from '../helpers/datasets';
+
+function makeMetadata(label: string, updated?: string): Dataset {
+  return makeDataset({ Tid: dimension('år', ['2024']) }, { label, updated });
+}
+
+describe('MetadataCache', () => {
+  it('evicts the least recently used entry', async () => {
+    const cache = new MetadataCache({ maxEntries: 2, ttlMs: 60000 });
+    await cache.set('A', 'sv', makeMetadata('A'));
+    await cache.set('B', 'sv', makeMetadata('B'));
+    await cache.get('A', 'sv');
+    await cache.set('C', 'sv', makeMetadata('C'));
+
+    expect(await cache.get('A', 'sv')).not.toBeNull();
+    expect(await cache.get('B', 'sv')).toBeNull();
+    expect(cache.getStats()).toMatchObject({ hits: 2, misses: 1, entries: 2 });
+  });
+
+  it('drops entries when /tables reports a newer update', async () => {
+    const cache = new MetadataCache({ maxEntries: 10, ttlMs: 60000 });
+    await cache.set('A', 'sv', makeMetadata('A', '2025-01-01T08:00:00Z'));
+
+    cache.noteTableUpdated('A', '2025-01-01T08:00:00Z');
+    expect(await cache.get('A', 'sv')).not.toBeNull();
+
+    cache.noteTableUpdated('A', '2025-02-01T08:00:00Z');
+    expect(await cache.get('A', 'sv')).toBeNull();
+    expect(cache.getStats().invalidations).toBe(1);
+  });
+
+  it('keeps codelists apart from tables, and only expires them by TTL', async () => {
+    const cache = new MetadataCache({ maxEntries: 10, ttlMs: 60000 });
+    const codelist: CodeListResponse = { id: 'vs_RegionLän', label: 'Län', language: 'sv', type: 'Valueset', values: [], links: [] };
+    await cache.setCodelist('vs_RegionLän', 'sv', codelist);
+
+    expect(await cache.get('vs_RegionLän', 'sv')).toBeNull();
+    cache.noteTableUpdated('vs_RegionLän', '2025-02-01T08:00:00Z');
+    expect(await cache.getCodelist('vs_RegionLän', 'sv')).toEqual(codelist);
+  });
+
+  it('reads entries back from disk', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'scb-metadata-'));
+    try {
+      await new MetadataCache({ maxEntries: 10, ttlMs: 60000, diskDir: dir }).set('TAB/1', 'en', makeMetadata('A'));
+
+      const cache = new MetadataCache({ maxEntries: 10, ttlMs: 60000, diskDir: dir });
+      expect((await cache.get('TAB/1', 'en'))?.label).toBe('A');
+      expect(cache.getStats().diskHits).toBe(1);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect, afterAll, vi } from 'vitest';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { SCBApiClient } from '../../src/api-client';
+import { dimension, makeDataset } from '../helpers/datasets';
+
+const metadata = makeDataset({ Tid: dimension('år', ['2024']) });
+
+describe('shared metadata requests', () => {
+  let metadataRequests = 0;
+  // Answers metadata slowly so callers overlap; everything else is not found
+  const server = createServer((req, res) => {
+    if (!req.url?.includes('/metadata')) {
+      res.writeHead(404).end();
+      return;
+    }
+    metadataRequests++;
+    setTimeout(() => res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(metadata)), 300);
+  });
+
+  afterAll(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  it('keep serving other callers when the first one cancels', async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const client = new SCBApiClient(`http://127.0.0.1:${port}`, { metadataCache: { maxEntries: 10, ttlMs: 60000 } });
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const controller = new AbortController();
+    const first = client.runToolCall(controller.signal, () => client.getTableMetadata('TAB1', 'sv')).catch(e => e);
+    const second = client.runToolCall(undefined, () => client.getTableMetadata('TAB1', 'sv'));
+    setTimeout(() => controller.abort(), 50);
+
+    expect((await first).message).toMatch(/cancelled/);
+    expect((await second).result.label).toBe('Test');
+    expect(metadataRequests).toBe(1);
+  }, 15000);
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { decodeCursor, encodeCursor, takePage, DataCursor } from '../../src/pagination';
+
+const items = Array.from({ length: 10 }, (_, i) => ({ id: i, label: 'x'.repeat(36) }));
+// About 10 tokens per item plus 5 for the envelope
+const measure = (page: unknown[]) => Math.ceil(JSON.stringify({ envelope: 'abcd' }).length / 4) + page.length * 10;
+
+describe('takePage', () => {
+  it('pages by record count', () => {
+    expect(takePage(items, 0, { maxRecords: 4 }, measure)).toMatchObject({ offset: 0, nextOffset: 4 });
+    const last = takePage(items, 8, { maxRecords: 4 }, measure);
+    expect(last.items.map(item => item.id)).toEqual([8, 9]);
+    expect(last.nextOffset).toBeNull();
+  });
+
+  it('fits the page to the token budget, envelope included', () => {
+    const page = takePage(items, 0, { maxTokens: 50 }, measure);
+    expect(page.items).toHaveLength(4);
+    expect(page.nextOffset).toBe(4);
+  });
+
+  it('returns at least one item when a single item exceeds the budget', () => {
+    expect(takePage(items, 3, { maxTokens: 1 }, measure).items).toHaveLength(1);
+  });
+});
+
+describe('cursors', () => {
+  const cursor: DataCursor = {
+    tableId: 'TAB638',
+    selection: { Region: ['0180'], Tid: ['2024'] },
+    language: 'sv',
+    responseFormat: 'columnar',
+    offset: 200,
+    maxTokens: 20000,
+    fetchedAt: '2026-01-01T00:00:00.000Z'
+  };
+
+  it('round-trip through an opaque string', () => {
+    const encoded = encodeCursor(cursor);
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(encoded)).toEqual(cursor);
+  });
+
+  it('reject anything that is not a cursor', () => {
+    expect(() => decodeCursor('not-a-cursor')).toThrow(/Cursor is not valid/);
+    expect(() => decodeCursor(Buffer.from(JSON.stringify({ v: 1, tableId: 'TAB638' })).toString('base64url'))).toThrow(/Cursor is not valid/);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { pivotDataset, resolvePlacement } from '../../src/pivot';
+import { dimension, makeDataset } from '../helpers/datasets';
+
+const regions: Record<string, string> = { '0180': 'Stockholm', '1480': 'Göteborg' };
+
+// Region (2) x Tid (3), values in JSON-stat row-major order
+const dataset = makeDataset({
+  Region: dimension('region', ['0180', '1480'], { labelOf: code => regions[code] }),
+  Tid: dimension('år', ['2022', '2023', '2024'])
+}, { label: 'Folkmängd', value: [1, 2, 3, 4, 5, 6] });
+
+describe('pivotDataset', () => {
+  it('puts regions in rows and years in columns', () => {
+    const pivot = pivotDataset(dataset, { stub: ['Region'], heading: ['Tid'] });
+
+    expect(pivot.columns.map(c => c.label)).toEqual(['2022', '2023', '2024']);
+    expect(pivot.rows.map(r => r.labels.Region)).toEqual(['Stockholm', 'Göteborg']);
+    expect(pivot.rows.map(r => r.values)).toEqual([[1, 2, 3], [4, 5, 6]]);
+  });
+
+  it('transposes when the placement is swapped', () => {
+    const pivot = pivotDataset(dataset, { heading: ['Region'] });
+
+    expect(pivot.stub).toEqual(['Tid']);
+    expect(pivot.rows.map(r => r.values)).toEqual([[1, 4], [2, 5], [3, 6]]);
+  });
+
+  it('rejects unknown variables', () => {
+    expect(() => resolvePlacement(dataset, { stub: ['Kommun'] })).toThrow(/Unknown variable/);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RateLimiter, parseRetryAfter } from '../../src/rate-limiter';
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('queues calls over the limit instead of rejecting them', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter(2, 10, 30000);
+    const granted: number[] = [];
+
+    const calls = [1, 2, 3].map(n => limiter.acquire().then(() => granted.push(n)));
+    await Promise.resolve();
+    expect(granted).toEqual([1, 2]);
+    expect(limiter.getState().queueDepth).toBe(1);
+
+    // One token refills every 5 seconds
+    await vi.advanceTimersByTimeAsync(5000);
+    await Promise.all(calls);
+    expect(granted).toEqual([1, 2, 3]);
+    expect(limiter.getState().queueDepth).toBe(0);
+  });
+
+  it('rejects when the wait would exceed the maximum', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter(1, 10, 1000);
+
+    await limiter.acquire();
+    await expect(limiter.acquire()).rejects.toThrow(/maximum wait/);
+  });
+
+  it('pauses the queue for Retry-After', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter(10, 10, 30000);
+    limiter.pauseFor(parseRetryAfter('3')!);
+
+    let granted = false;
+    const call = limiter.acquire().then(() => { granted = true; });
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(granted).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await call;
+    expect(granted).toBe(true);
+  });
+
+  it('removes a cancelled call from the queue', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter(1, 10, 30000);
+    await limiter.acquire();
+
+    const controller = new AbortController();
+    const call = limiter.acquire(controller.signal);
+    expect(limiter.getState().queueDepth).toBe(1);
+
+    controller.abort();
+    await expect(call).rejects.toThrow(/cancelled/);
+    expect(limiter.getState().queueDepth).toBe(0);
+  });
+});
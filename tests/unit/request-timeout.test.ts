@@ -0,0 +1,30 @@
+import { describe, it, expect, afterAll, vi } from 'vitest';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { SCBApiClient } from '../../src/api-client';
+import { UpstreamUnavailableError } from '../../src/errors';
+
+describe('request timeout', () => {
+  // Sends the headers and half a body, then stalls
+  const server = createServer((_req, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.write('{"apiVersion": ');
+  });
+
+  afterAll(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  it('also covers reading the body', async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const client = new SCBApiClient(`http://127.0.0.1:${port}`, { requestTimeoutMs: 100 });
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const error = await client.getConfig().catch(e => e);
+
+    expect(error).toBeInstanceOf(UpstreamUnavailableError);
+    expect(error.message).toMatch(/timed out/);
+  }, 15000);
+});
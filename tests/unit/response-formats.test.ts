@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { defaultResponseFormat, toColumnar, toMarkdownTable } from '../../src/response-formats';
+
+// Field order as transformToStructuredData builds it: last dimension first
+const records = [
+  { period_code: '2023', period_name: '2023', period_start: '2023-01-01', period_end: '2023-12-31', frequency: 'annual', region_code: '01', region_name: 'Stockholms län', value: 100 },
+  { period_code: '2024', period_name: '2024', period_start: '2024-01-01', period_end: '2024-12-31', frequency: 'annual', region_code: '01', region_name: 'Stockholms län', value: null, status: '..' }
+];
+
+describe('defaultResponseFormat', () => {
+  it('switches to columnar for large results', () => {
+    expect(defaultResponseFormat(10)).toBe('records');
+    expect(defaultResponseFormat(5000)).toBe('columnar');
+  });
+});
+
+describe('toColumnar', () => {
+  it('lists columns once and labels once per code', () => {
+    const columnar = toColumnar(records);
+
+    expect(columnar.columns).toEqual(['region', 'period', 'value', 'status']);
+    expect(columnar.rows).toEqual([['01', '2023', 100, null], ['01', '2024', null, '..']]);
+    expect(columnar.dictionaries.region).toEqual({ '01': 'Stockholms län' });
+    expect(columnar.periods?.['2024']).toEqual({ start: '2024-01-01', end: '2024-12-31', frequency: 'annual' });
+  });
+});
+
+describe('toMarkdownTable', () => {
+  it('uses labels and shows status symbols for missing values', () => {
+    const table = toMarkdownTable(records, { region: 'region', period: 'år' }).split('\n');
+
+    expect(table[0]).toBe('| region | år | value |');
+    expect(table[3]).toBe('| Stockholms län | 2024 | .. |');
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { estimateRecordsSize, estimateTokens } from '../../src/response-size';
+import { toColumnar, toMarkdownTable } from '../../src/response-formats';
+
+describe('estimateRecordsSize', () => {
+  const regions = { '0180': 'Stockholm', '1480': 'Göteborg', '1280': 'Malmö' };
+  const years = { '2022': '2022', '2023': '2023' };
+  const dimensions = [
+    { fieldName: 'region', codes: Object.keys(regions), labels: regions },
+    { fieldName: 'year', codes: Object.keys(years), labels: years }
+  ];
+  const records = Object.entries(regions).flatMap(([regionCode, regionName]) =>
+    Object.keys(years).map(year => ({
+      region_code: regionCode,
+      region_name: regionName,
+      year_code: year,
+      year_name: year,
+      value: 123456.7
+    }))
+  );
+
+  it('counts one record per cell', () => {
+    const estimate = estimateRecordsSize(dimensions);
+
+    expect(estimate.records).toBe(6);
+    expect(estimate.tokens).toBe(estimateTokens(estimate.bytes));
+  });
+
+  it('is close to the size of the data actually returned in each format', () => {
+    const actual = {
+      records: JSON.stringify(records).length,
+      columnar: JSON.stringify(toColumnar(records)).length,
+      markdown_table: JSON.stringify(toMarkdownTable(records)).length
+    };
+
+    for (const [format, bytes] of Object.entries(actual)) {
+      const estimate = estimateRecordsSize(dimensions, format as keyof typeof actual);
+      expect(Math.abs(estimate.bytes - bytes) / bytes, format).toBeLessThan(0.15);
+    }
+  });
+});
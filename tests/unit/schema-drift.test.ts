@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseWithDrift } from '../../src/schema-drift';
+import { SchemaMismatchError } from '../../src/errors';
+import { DatasetSchema, TablesResponseSchema } from '../../src/types';
+
+const URL = 'https://statistikdatabasen.scb.se/api/v2/tables?lang=sv';
+
+function tablesResponse(table: Record<string, unknown>) {
+  return {
+    language: 'sv',
+    tables: [{
+      id: 'TAB638',
+      label: 'Folkmängd',
+      description: '',
+      links: [],
+      ...table
+    }],
+    page: { pageNumber: 1, pageSize: 20, totalElements: 1, totalPages: 1 },
+    links: []
+  };
+}
+
+describe('parseWithDrift', () => {
+  it('passes unknown fields through', () => {
+    const { data, warnings } = parseWithDrift<any>(TablesResponseSchema, tablesResponse({ newField: 'x' }), URL);
+
+    expect(data.tables[0].newField).toBe('x');
+    expect(warnings).toEqual([]);
+  });
+
+  it('keeps unknown enum values and missing nested fields as warnings, logged once', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const drifted = tablesResponse({ category: 'experimental', description: undefined });
+
+    const { data, warnings } = parseWithDrift<any>(TablesResponseSchema, drifted, URL);
+    parseWithDrift(TablesResponseSchema, drifted, URL);
+
+    expect(data.tables[0].category).toBe('experimental');
+    expect(warnings.map(w => w.path).sort()).toEqual(['tables[].category', 'tables[].description']);
+    expect(warnings[0].source).toBe('/tables');
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+
+  it('fails on mismatches the code cannot work with', () => {
+    expect(() => parseWithDrift(TablesResponseSchema, { language: 'sv', tables: 'none' }, URL))
+      .toThrow(SchemaMismatchError);
+  });
+
+  it('reports the same drift in every array element once', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const response = tablesResponse({ description: null });
+    response.tables.push({ ...response.tables[0], id: 'TAB639' });
+
+    const { warnings } = parseWithDrift(TablesResponseSchema, response, URL);
+
+    expect(warnings).toEqual([{ source: '/tables', path: 'tables[].description', message: expect.any(String) }]);
+  });
+
+  it('fails on missing or null fields the code relies on', () => {
+    const dataset = (category: unknown) => ({
+      version: '2.0',
+      class: 'dataset',
+      id: ['A'],
+      label: 'Test',
+      size: [1],
+      dimension: { A: { label: 'A', category } }
+    });
+
+    expect(() => parseWithDrift(DatasetSchema, dataset(null), URL)).toThrow(SchemaMismatchError);
+    expect(() => parseWithDrift(DatasetSchema, dataset(undefined), URL)).toThrow(SchemaMismatchError);
+    expect(() => parseWithDrift(DatasetSchema, dataset({ label: { '1': 'x' } }), URL)).toThrow(SchemaMismatchError);
+    expect(() => parseWithDrift(DatasetSchema, dataset({ index: null, label: { '1': 'x' } }), URL)).toThrow(SchemaMismatchError);
+  });
+
+  it('fails on any mismatch in strict mode', () => {
+    expect(() => parseWithDrift(TablesResponseSchema, tablesResponse({ category: 'experimental' }), URL, 'strict'))
+      .toThrow(SchemaMismatchError);
+  });
+});
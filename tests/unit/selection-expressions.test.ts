@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { parseSelectionExpression, resolveSelectionValue, expandSelectionValues } from '../../src/selection-expressions';
+
+const codes = ['00', '01', '0114', '0180', '03', '0380', '1480', '[ME01]'];
+
+describe('resolveSelectionValue', () => {
+  it('expands wildcards', () => {
+    expect(resolveSelectionValue('01*', codes).codes).toEqual(['01', '0114', '0180']);
+    expect(resolveSelectionValue('??80', codes).codes).toEqual(['0180', '0380', '1480']);
+    expect(resolveSelectionValue('*', codes).codes).toEqual(codes);
+  });
+
+  it('expands TOP, BOTTOM, RANGE, FROM and TO', () => {
+    expect(resolveSelectionValue('TOP(2,1)', codes).codes).toEqual(['01', '0114']);
+    expect(resolveSelectionValue('bottom(2)', codes).codes).toEqual(['1480', '[ME01]']);
+    expect(resolveSelectionValue('RANGE(0114,03)', codes).codes).toEqual(['0114', '0180', '03']);
+    expect(resolveSelectionValue('FROM(0380)', codes).codes).toEqual(['0380', '1480', '[ME01]']);
+    expect(resolveSelectionValue('TO(01)', codes).codes).toEqual(['00', '01']);
+    expect(resolveSelectionValue('[[ME01]]', codes).codes).toEqual(['[ME01]']);
+  });
+
+  it('reports malformed expressions precisely', () => {
+    expect(() => parseSelectionExpression('TOP(5')).toThrow(/closing parenthesis/);
+    expect(() => parseSelectionExpression('TOP(0)')).toThrow(/positive whole number/);
+    expect(() => parseSelectionExpression('RANGE(01)')).toThrow(/takes 2 arguments/);
+    expect(() => parseSelectionExpression('LAST(3)')).toThrow(/Unknown selection function/);
+    expect(() => parseSelectionExpression('*0*1*')).toThrow(/at most 2/);
+    expect(resolveSelectionValue('RANGE(03,01)', codes).error).toMatch(/comes after/);
+    expect(resolveSelectionValue('FROM(99)', codes).error).toMatch(/"99".*not found/);
+  });
+});
+
+describe('expandSelectionValues', () => {
+  it('merges values in the variable order without duplicates', () => {
+    expect(expandSelectionValues(['0380', '01*', '0114'], codes)).toEqual(['01', '0114', '0180', '0380']);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { isAdditiveMeasure, summarizeByMeasure } from '../../src/summary-stats';
+
+function record(region: string, measure: string, value: number | null, status?: string) {
+  return {
+    region_code: region,
+    region_name: `Region ${region}`,
+    observation_type_code: measure,
+    observation_type_name: measure,
+    value,
+    ...(status ? { status } : {})
+  };
+}
+
+describe('isAdditiveMeasure', () => {
+  it('only treats counts and amounts as additive', () => {
+    expect(isAdditiveMeasure('Folkmängd', 'antal')).toBe(true);
+    expect(isAdditiveMeasure('Medelinkomst', 'tkr')).toBe(false);
+    expect(isAdditiveMeasure('Arbetslöshet', 'procent')).toBe(false);
+    expect(isAdditiveMeasure('Inkomst', 'kr/person')).toBe(false);
+  });
+});
+
+describe('summarizeByMeasure', () => {
+  const records = [
+    record('01', 'POP', 100),
+    record('03', 'POP', 300),
+    record('05', 'POP', 200),
+    record('01', 'RATE', 4.5),
+    record('03', 'RATE', null, '..'),
+    record('05', 'RATE', 6.5)
+  ];
+  const measures = {
+    POP: { label: 'Folkmängd', unit: 'antal', decimals: 0 },
+    RATE: { label: 'Arbetslöshet', unit: 'procent', decimals: 1 }
+  };
+
+  it('summarizes each measure on its own', () => {
+    const [pop, rate] = summarizeByMeasure(records, 'observation_type', measures);
+
+    expect(pop).toMatchObject({ measure_code: 'POP', unit: 'antal', count: 3, min: 100, max: 300, mean: 200, median: 200, additive: true, sum: 600 });
+    expect(rate).toMatchObject({ measure_code: 'RATE', count: 2, null_count: 1, suppressed_count: 1, median: 5.5, additive: false, sum: null });
+  });
+
+  it('reports the records holding the extremes with their labels', () => {
+    const [pop] = summarizeByMeasure(records, 'observation_type', measures);
+
+    expect(pop.max_record).toEqual({ value: 300, labels: { region: 'Region 03' } });
+    expect(pop.min_record?.labels.region).toBe('Region 01');
+  });
+
+  it('puts everything in one group when the table has no measure dimension', () => {
+    const groups = summarizeByMeasure(records.slice(0, 3), null, {});
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0]).toMatchObject({ measure_code: null, count: 3, sum: 600 });
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { resolveTimeExpression, detectFrequency } from '../../src/time-expressions';
+
+const years = ['2010', '2011', '2012', '2013', '2014', '2015', '2016', '2017', '2018', '2019', '2020', '2021', '2022', '2023', '2024', '2025'];
+const quarters = ['2022K1', '2022K2', '2022K3', '2022K4', '2023K1', '2023K2', '2023K3', '2023K4', '2024K1', '2024K2', '2024K3', '2024K4', '2025K1'];
+const months = Array.from({ length: 27 }, (_, i) => `${2023 + Math.floor(i / 12)}M${String((i % 12) + 1).padStart(2, '0')}`);
+
+describe('resolveTimeExpression', () => {
+  it('resolves latest and windows against the table frequency', () => {
+    expect(resolveTimeExpression('latest', years)).toEqual({ codes: ['2025'] });
+    expect(resolveTimeExpression('last 5 years', years)).toEqual({ codes: ['2021', '2022', '2023', '2024', '2025'] });
+    expect(resolveTimeExpression('last 4 quarters', quarters)).toEqual({ codes: ['2024K2', '2024K3', '2024K4', '2025K1'] });
+    expect(resolveTimeExpression('last 1 year', months)).toEqual({ codes: months.slice(-12) });
+  });
+
+  it('resolves since, ranges and alternative notations', () => {
+    expect(resolveTimeExpression('since 2023', years)).toEqual({ codes: ['2023', '2024', '2025'] });
+    expect(resolveTimeExpression('2020-2022', years)).toEqual({ codes: ['2020', '2021', '2022'] });
+    expect(resolveTimeExpression('2023Q3..2024Q1', quarters)).toEqual({ codes: ['2023K3', '2023K4', '2024K1'] });
+    expect(resolveTimeExpression('2024-03', months)).toEqual({ codes: ['2024M03'] });
+  });
+
+  it('resolves same month last year and rejects it for other frequencies', () => {
+    expect(resolveTimeExpression('same month last year', months)).toEqual({ codes: ['2024M03'] });
+    expect(resolveTimeExpression('same month last year', quarters)).toHaveProperty('error');
+  });
+
+  it('leaves plain codes and selection expressions alone', () => {
+    expect(resolveTimeExpression('2024', years)).toBeNull();
+    expect(resolveTimeExpression('TOP(3)', years)).toBeNull();
+    expect(detectFrequency(months)).toBe('monthly');
+  });
+});
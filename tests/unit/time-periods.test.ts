@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { parseTimePeriod } from '../../src/time-periods';
+
+describe('parseTimePeriod', () => {
+  it('parses every SCB frequency with inclusive ISO start and end dates', () => {
+    expect(parseTimePeriod('2024')).toEqual({
+      code: '2024', frequency: 'annual', year: 2024, subPeriod: null, start: '2024-01-01', end: '2024-12-31'
+    });
+    expect(parseTimePeriod('2023K4')).toEqual({
+      code: '2023K4', frequency: 'quarterly', year: 2023, subPeriod: 4, start: '2023-10-01', end: '2023-12-31'
+    });
+    expect(parseTimePeriod('2024M02')).toEqual({
+      code: '2024M02', frequency: 'monthly', year: 2024, subPeriod: 2, start: '2024-02-01', end: '2024-02-29'
+    });
+  });
+
+  it('uses ISO weeks, which can start in the previous year', () => {
+    expect(parseTimePeriod('2021V01')).toMatchObject({ frequency: 'weekly', subPeriod: 1, start: '2021-01-04', end: '2021-01-10' });
+    expect(parseTimePeriod('2020V01')).toMatchObject({ start: '2019-12-30', end: '2020-01-05' });
+  });
+
+  it('returns null for codes that are not periods', () => {
+    expect(parseTimePeriod('2024M13')).toBeNull();
+    expect(parseTimePeriod('BE0101N1')).toBeNull();
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { resolveValueLabel } from '../../src/value-resolution';
+
+const sexLabels = { '1': 'män', '2': 'kvinnor', '1+2': 'totalt' };
+const regionLabels = { '00': 'Riket', '01': '01 Stockholms län', '0180': '0180 Stockholm', '1480': '1480 Göteborg', '1280': '1280 Malmö' };
+
+describe('resolveValueLabel', () => {
+  it('matches labels ignoring case, diacritics and language', () => {
+    expect(resolveValueLabel('Kvinnor', sexLabels)).toMatchObject({ status: 'resolved', code: '2' });
+    expect(resolveValueLabel('male', sexLabels)).toMatchObject({ status: 'resolved', code: '1' });
+    expect(resolveValueLabel('total', sexLabels)).toMatchObject({ status: 'resolved', code: '1+2' });
+  });
+
+  it('ignores code prefixes in region labels and tolerates typos', () => {
+    expect(resolveValueLabel('Goteborg', regionLabels)).toMatchObject({ status: 'resolved', code: '1480' });
+    expect(resolveValueLabel('Stockholm', regionLabels)).toMatchObject({ status: 'resolved', code: '0180' });
+    expect(resolveValueLabel('Malmoe', regionLabels)).toMatchObject({ status: 'resolved', code: '1280' });
+  });
+
+  it('reports ambiguous labels with candidates', () => {
+    const result = resolveValueLabel('Stock', { '0180': 'Stockholm', '0181': 'Stockholm' });
+    expect(result.status).toBe('ambiguous');
+  });
+});
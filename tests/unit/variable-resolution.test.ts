@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { resolveVariableName } from '../../src/variable-resolution';
+
+const candidates = [
+  { code: 'Lan', labels: ['län', 'county'] },
+  { code: 'Kommun', labels: ['kommun', 'municipality'] },
+  { code: 'SNI2007', labels: ['näringsgren SNI 2007', 'industry SNI 2007'] },
+  { code: 'Yrke2012', labels: ['yrke (SSYK 2012)', 'occupation (SSYK 2012)'] },
+  { code: 'ContentsCode', labels: ['tabellinnehåll', 'observations'] },
+  { code: 'Tid', labels: ['år', 'year'] }
+];
+
+describe('resolveVariableName', () => {
+  it('matches codes and labels in both languages, ignoring case and diacritics', () => {
+    expect(resolveVariableName('Lan', candidates)).toMatchObject({ status: 'resolved', code: 'Lan', score: 1 });
+    expect(resolveVariableName('län', candidates)).toMatchObject({ status: 'resolved', code: 'Lan' });
+    expect(resolveVariableName('municipality', candidates)).toMatchObject({ status: 'resolved', code: 'Kommun' });
+    expect(resolveVariableName('sni', candidates)).toMatchObject({ status: 'resolved', code: 'SNI2007' });
+    expect(resolveVariableName('yrke', candidates)).toMatchObject({ status: 'resolved', code: 'Yrke2012' });
+    expect(resolveVariableName('observations', candidates)).toMatchObject({ status: 'resolved', code: 'ContentsCode' });
+    expect(resolveVariableName('ar', candidates)).toMatchObject({ status: 'resolved', code: 'Tid' });
+  });
+
+  it('reports keys matching several dimensions as ambiguous', () => {
+    const result = resolveVariableName('region', candidates);
+    expect(result.status).toBe('ambiguous');
+    expect(result.status === 'ambiguous' && result.candidates.map(c => c.code).sort()).toEqual(['Kommun', 'Lan']);
+  });
+
+  it('returns near misses for unknown keys', () => {
+    expect(resolveVariableName('colour', candidates).status).toBe('unmatched');
+  });
+});